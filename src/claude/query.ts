@@ -3,6 +3,7 @@
  */
 
 import { spawn, type ChildProcess } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
 import { createInterface } from 'node:readline';
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
@@ -16,11 +17,19 @@ export interface QueryOptions {
     permissionMode?: PermissionMode;
     model?: string;
     maxTurns?: number;
+    resume?: string; // Claude session id to resume
+    mcpConfig?: object; // Passed to --mcp-config as JSON
+    permissionPromptTool?: string; // MCP tool that answers permission prompts
+    addDirs?: string[]; // Extra directories the session may work in (--add-dir)
+    settings?: object; // Passed to --settings as JSON
 }
 
 export interface ClaudeSession {
     process: ChildProcess;
     sendMessage: (text: string) => void;
+    interrupt: () => boolean;
+    setPermissionMode: (mode: PermissionMode) => boolean;
+    setModel: (model?: string) => boolean;
     onOutput: (callback: (message: ClaudeMessage) => void) => void;
     kill: () => void;
 }
@@ -73,7 +82,29 @@ export function spawnClaudeSession(options: QueryOptions): ClaudeSession {
         args.push('--max-turns', options.maxTurns.toString());
     }
 
-    console.log(`[Claude] Spawning: ${claudePath} ${args.join(' ')}`);
+    if (options.resume) {
+        args.push('--resume', options.resume);
+    }
+
+    if (options.mcpConfig) {
+        args.push('--mcp-config', JSON.stringify(options.mcpConfig));
+    }
+
+    if (options.permissionPromptTool) {
+        args.push('--permission-prompt-tool', options.permissionPromptTool);
+    }
+
+    for (const dir of options.addDirs || []) {
+        args.push('--add-dir', dir);
+    }
+
+    if (options.settings) {
+        args.push('--settings', JSON.stringify(options.settings));
+    }
+
+    // The MCP config carries the permission broker's settings, which stay out of the log
+    const loggedArgs = args.map((arg, i) => args[i - 1] === '--mcp-config' ? '<config>' : arg);
+    console.log(`[Claude] Spawning: ${claudePath} ${loggedArgs.join(' ')}`);
     console.log(`[Claude] CWD: ${options.cwd}`);
     console.log(`[Claude] Permission mode: ${permissionMode}`);
 
@@ -96,6 +127,15 @@ export function spawnClaudeSession(options: QueryOptions): ClaudeSession {
             if (!line.trim()) return;
             try {
                 const message = JSON.parse(line) as ClaudeMessage;
+
+                // Answers to our control requests (e.g. interrupt) are not session output
+                if ((message as { type: string }).type === 'control_response') {
+                    if (process.env.DEBUG) {
+                        console.log('[Claude control]', line);
+                    }
+                    return;
+                }
+
                 for (const callback of outputCallbacks) {
                     callback(message);
                 }
@@ -141,6 +181,12 @@ export function spawnClaudeSession(options: QueryOptions): ClaudeSession {
             }
         },
 
+        interrupt: () => sendInterrupt(child),
+
+        setPermissionMode: (mode: PermissionMode) => sendControlRequest(child, { subtype: 'set_permission_mode', mode }),
+
+        setModel: (model?: string) => sendControlRequest(child, { subtype: 'set_model', model }),
+
         onOutput: (callback: (message: ClaudeMessage) => void) => {
             outputCallbacks.push(callback);
         },
@@ -153,6 +199,34 @@ export function spawnClaudeSession(options: QueryOptions): ClaudeSession {
     };
 }
 
+/**
+ * Write a stream-json control request to Claude's stdin
+ * Claude answers with a control_response, which is not passed on as output.
+ * Returns false if stdin is already closed
+ */
+export function sendControlRequest(child: ChildProcess, request: { subtype: string } & Record<string, unknown>): boolean {
+    if (!child.stdin || child.stdin.destroyed) {
+        return false;
+    }
+
+    const message = {
+        type: 'control_request',
+        request_id: `${request.subtype}-${randomUUID()}`,
+        request
+    };
+    child.stdin.write(JSON.stringify(message) + '\n');
+    return true;
+}
+
+/**
+ * Ask Claude to stop the current turn
+ * The process and its context stay alive; Claude ends the turn with a result
+ * message
+ */
+export function sendInterrupt(child: ChildProcess): boolean {
+    return sendControlRequest(child, { subtype: 'interrupt' });
+}
+
 /**
  * Extract text from Claude message content
  */
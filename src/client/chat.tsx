@@ -2,26 +2,74 @@
  * Ink-based P2P Claude Chat UI
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { render, Box, Text, useInput, useApp } from 'ink';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { resolve } from 'node:path';
+import { render, Box, Text, useInput, useApp, measureElement, type DOMElement } from 'ink';
 import TextInput from 'ink-text-input';
-import { RpcClient, Encryption, parsePairingUrl, type ConnectionState } from './rpc.js';
-import type { ClaudeMessage, ContentBlock, SessionOutput } from '../types.js';
+import { isWithinRoots, type RpcClient, type ConnectionState, type SessionSubscription } from './rpc.js';
+import { SessionPicker } from './session-picker.js';
+import { PermissionPrompt } from './permission-prompt.js';
+import { Markdown } from './markdown.js';
+import { ToolCallView, describeInput, toolResultText, type ToolCall, type ToolResult } from './tool-view.js';
+import { ScrollView, Highlight, useTerminalRows } from './scroll-view.js';
+import { createCommandRegistry, type ChatActions } from './commands.js';
+import { connectToDaemon } from './connect.js';
+import { RpcError } from '../errors.js';
+import type {
+    ClaudeMessage,
+    ContentBlock,
+    SessionInfo,
+    SessionOutput,
+    SessionEndReason,
+    GetUsageResult,
+    PermissionDecision,
+    PermissionRequest,
+    PermissionResolvedEvent,
+    RekeyEvent
+} from '../types.js';
 
 interface Message {
-    role: 'user' | 'assistant' | 'system' | 'tool';
+    role: 'user' | 'assistant' | 'system' | 'tool' | 'status'; // status: Claude's system and result messages
     content: string;
     timestamp: number;
+    tool?: ToolCall; // role 'tool'
 }
 
+// Search through the transcript (/search)
+interface SearchState {
+    query: string;
+    matches: number[]; // Indexes into messages
+    current: number; // Index into matches
+}
+
+// Messages kept in the scrollable transcript
+const MAX_RENDERED_MESSAGES = 500;
+
+// Rows taken by everything but the transcript: padding, header, thinking
+// line, scroll status, input and help
+const RESERVED_ROWS = 12;
+
+// Extra rows while a permission prompt or the session picker is open
+const MODAL_ROWS = 10;
+
+// Tab completion candidates shown under the input
+const MAX_SHOWN_COMPLETIONS = 8;
+
+const commands = createCommandRegistry();
+
 interface ChatAppProps {
     pairingUrl: string;
     directory: string;
+    attach?: string | true; // Session id to attach to, or true to pick one
+    deviceName: string;
 }
 
-function ChatApp({ pairingUrl, directory }: ChatAppProps) {
+function ChatApp({ pairingUrl, directory, attach, deviceName }: ChatAppProps) {
     const { exit } = useApp();
-    const [status, setStatus] = useState<'connecting' | 'spawning' | 'ready' | 'error'>('connecting');
+    const [status, setStatus] = useState<'connecting' | 'pairing' | 'spawning' | 'ready' | 'error'>('connecting');
+    const [pairingCode, setPairingCode] = useState<string | null>(null);
     const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
     const [error, setError] = useState<string | null>(null);
     const [messages, setMessages] = useState<Message[]>([]);
@@ -31,146 +79,385 @@ function ChatApp({ pairingUrl, directory }: ChatAppProps) {
     const [client, setClient] = useState<RpcClient | null>(null);
     const [host, setHost] = useState<string>('unknown');
     const [reconnectCount, setReconnectCount] = useState(0);
+    const [pickerSessions, setPickerSessions] = useState<SessionInfo[] | null>(null);
+    const [permissionRequests, setPermissionRequests] = useState<PermissionRequest[]>([]);
+    const [usage, setUsage] = useState<GetUsageResult | null>(null);
+    const [toolsExpanded, setToolsExpanded] = useState(false);
+    const [rawMarkdown, setRawMarkdown] = useState(false);
+    const [scrollOffset, setScrollOffset] = useState(0); // Lines scrolled up from the bottom
+    const [contentHeight, setContentHeight] = useState(0);
+    const [search, setSearch] = useState<SearchState | null>(null);
+    const [sessionDirectory, setSessionDirectory] = useState(directory);
+    const [completions, setCompletions] = useState<string[]>([]);
+    const [inputKey, setInputKey] = useState(0); // Remounts the input after completion, moving the cursor to the end
+    const terminalRows = useTerminalRows();
+
+    // Mutable state shared by the connection callbacks
+    const clientRef = useRef<RpcClient | null>(null);
+    const sessionIdRef = useRef<string | null>(null);
+    const subscriptionRef = useRef<SessionSubscription | null>(null);
+    const mountedRef = useRef(true);
+    const rootDirsRef = useRef<string[] | undefined>(undefined); // Advertised by the daemon
+    const directoryRef = useRef(directory); // Current session's directory, where new sessions start
+    const endedRef = useRef(false); // The daemon ended the current session
+    const turnRunningRef = useRef(false); // A sent message has not produced its result yet
+    const messageRefs = useRef(new Map<number, DOMElement>()); // Rendered messages, for jumping to search matches
+
+    const addSystemMessage = useCallback((content: string) => {
+        setMessages(prev => [...prev, {
+            role: 'system',
+            content,
+            timestamp: Date.now()
+        }]);
+    }, []);
 
-    // Initialize connection
-    useEffect(() => {
-        let rpcClient: RpcClient | null = null;
-        let pollInterval: NodeJS.Timeout | null = null;
-        let mounted = true;
-        let currentSessionId: string | null = null;
+    // Fetch the session's and this device's usage for the header
+    const refreshUsage = useCallback(async () => {
+        const rpcClient = clientRef.current;
+        const id = sessionIdRef.current;
+        if (!rpcClient || !id) return;
 
-        async function spawnSession(): Promise<string | null> {
-            if (!rpcClient || !mounted) return null;
+        try {
+            const result = await rpcClient.call('get-usage', { sessionId: id });
+            if (mountedRef.current && id === sessionIdRef.current) setUsage(result);
+        } catch {
+            // Older daemons, or a role without get-usage: no usage line
+        }
+    }, []);
 
-            setStatus('spawning');
+    const handleOutput = useCallback((msg: SessionOutput) => {
+        if (msg.type === 'session-output' && msg.data.type === 'result') {
+            turnRunningRef.current = false;
+            setIsThinking(false);
+            refreshUsage();
+        }
+        if (msg.type === 'session-ended') {
+            endedRef.current = true;
+            turnRunningRef.current = false;
+            setIsThinking(false);
+            addSystemMessage(describeSessionEnd(msg.reason));
+            return;
+        }
+        if (msg.type !== 'session-output') return;
+
+        const message = msg.data;
+        switch (message.type) {
+            case 'assistant': {
+                const content = extractContent(message);
+                const tools = extractToolUse(message);
+                if (content) setIsThinking(false);
+
+                setMessages(prev => [
+                    ...prev,
+                    ...(content ? [{ role: 'assistant' as const, content, timestamp: msg.timestamp }] : []),
+                    ...tools.map(tool => ({ role: 'tool' as const, content: tool.name, timestamp: msg.timestamp, tool }))
+                ]);
+                break;
+            }
 
-            try {
-                const result = await rpcClient.call<{ type: string; sessionId?: string; errorMessage?: string }>(
-                    'spawn-session',
-                    { directory, sessionId: crypto.randomUUID() }
-                );
+            case 'user': {
+                // Tool results come back as user messages; attach each to its call
+                const results = extractToolResults(message);
+                if (results.size === 0) break;
 
-                if (!mounted) return null;
+                setMessages(prev => prev.map(m => {
+                    const result = m.tool && results.get(m.tool.id);
+                    return result ? { ...m, tool: { ...m.tool!, result } } : m;
+                }));
+                break;
+            }
 
-                if (result.type === 'success' && result.sessionId) {
-                    return result.sessionId;
-                } else {
-                    throw new Error(result.errorMessage || 'Failed to spawn session');
+            case 'system': {
+                const content = describeSystemMessage(message);
+                if (content) {
+                    setMessages(prev => [...prev, { role: 'status', content, timestamp: msg.timestamp }]);
                 }
-            } catch (err) {
-                if (!mounted) return null;
-                setError((err as Error).message);
-                setStatus('error');
-                return null;
+                break;
             }
+
+            case 'result':
+                setMessages(prev => [...prev, { role: 'status', content: describeResult(message), timestamp: msg.timestamp }]);
+                break;
         }
+    }, [addSystemMessage, refreshUsage]);
 
-        async function init() {
-            try {
-                // Parse pairing URL
-                const info = parsePairingUrl(pairingUrl);
-                if (info.metadata?.host) {
-                    setHost(info.metadata.host);
+    // Stream pushed output for a session until the subscription is closed.
+    // Buffered output is replayed first, so attaching shows the session's history
+    const streamOutput = useCallback(async (id: string, sinceSeq = 0) => {
+        const rpcClient = clientRef.current;
+        if (!rpcClient || !mountedRef.current) return;
+
+        subscriptionRef.current?.close();
+        let subscription: SessionSubscription;
+        try {
+            subscription = await rpcClient.subscribeSession(id, {
+                sinceSeq,
+                onGap: (gap) => {
+                    if (!mountedRef.current) return;
+                    addSystemMessage(`⚠️ ${gap.toSeq - gap.fromSeq + 1} older message(s) are no longer available.`);
+                }
+            });
+        } catch (err) {
+            if (!mountedRef.current) return;
+            addSystemMessage(`Error: ${(err as Error).message}`);
+            return;
+        }
+        subscriptionRef.current = subscription;
+
+        for await (const msg of subscription) {
+            if (!mountedRef.current) break;
+            handleOutput(msg);
+        }
+    }, [addSystemMessage, handleOutput]);
+
+    // Make a session the current one and start streaming its output
+    const attachSession = useCallback((id: string, sessionDir?: string) => {
+        sessionIdRef.current = id;
+        endedRef.current = false;
+        setSessionId(id);
+        if (sessionDir) {
+            directoryRef.current = sessionDir;
+            setSessionDirectory(sessionDir);
+        }
+        setPermissionRequests([]);
+        setIsThinking(false);
+        setUsage(null);
+        setScrollOffset(0);
+        setSearch(null);
+        setStatus('ready');
+        streamOutput(id);
+        refreshUsage();
+    }, [streamOutput, refreshUsage]);
+
+    // Ask the daemon for a new session; throws if it cannot start one
+    const requestSpawn = useCallback(async (sessionDir: string): Promise<string> => {
+        const rpcClient = clientRef.current;
+        if (!rpcClient) throw new Error('Not connected');
+
+        if (!isWithinRoots(sessionDir, rootDirsRef.current)) {
+            throw new Error(`${sessionDir} is outside the daemon's allowed directories: ${rootDirsRef.current!.join(', ')}`);
+        }
+
+        const result = await rpcClient.call(
+            'spawn-session',
+            { directory: sessionDir, sessionId: randomUUID() }
+        );
+        return result.sessionId;
+    }, []);
+
+    const spawnSession = useCallback(async (): Promise<string | null> => {
+        if (!clientRef.current || !mountedRef.current) return null;
+
+        setStatus('spawning');
+
+        try {
+            const id = await requestSpawn(directoryRef.current);
+            return mountedRef.current ? id : null;
+        } catch (err) {
+            if (!mountedRef.current) return null;
+            setError((err as Error).message);
+            setStatus('error');
+            return null;
+        }
+    }, [requestSpawn]);
+
+    const listSessions = useCallback(async (): Promise<SessionInfo[]> => {
+        const rpcClient = clientRef.current;
+        if (!rpcClient) return [];
+        return rpcClient.call('list-sessions', {});
+    }, []);
+
+    // Make sure a session is running on the daemon, resuming it if the daemon
+    // restarted since. Returns false if it can be neither found nor resumed
+    const ensureSessionRunning = useCallback(async (id: string): Promise<boolean> => {
+        const rpcClient = clientRef.current;
+        if (!rpcClient) return false;
+
+        const sessions = await listSessions();
+        if (sessions.some(session => session.sessionId === id)) {
+            return true;
+        }
+
+        try {
+            await rpcClient.call('resume-session', { sessionId: id });
+            return true;
+        } catch (err) {
+            // Connection trouble is reported as such, not as a lost session
+            if (err instanceof RpcError && !err.retryable) return false;
+            throw err;
+        }
+    }, [listSessions]);
+
+    // After a reconnect, reattach to the previous session if the daemon still has it.
+    // RpcClient re-subscribes on its own and replays what was missed
+    const reattachAfterReconnect = useCallback(async () => {
+        const previousId = sessionIdRef.current;
+        if (!previousId) return;
+
+        try {
+            const live = (await listSessions()).some(session => session.sessionId === previousId);
+            if (!mountedRef.current) return;
+
+            if (live) {
+                addSystemMessage('🔄 Reconnected to server. Reattached to session.');
+                return;
+            }
+
+            // Daemon restarted - resume the session with its Claude context
+            if (await ensureSessionRunning(previousId)) {
+                if (!mountedRef.current) return;
+                addSystemMessage('🔄 Reconnected to server. Resumed session after daemon restart.');
+                streamOutput(previousId, subscriptionRef.current?.getLastSeq());
+                return;
+            }
+        } catch (err) {
+            if (!mountedRef.current) return;
+            addSystemMessage(`Error: ${(err as Error).message}`);
+            return;
+        }
+
+        addSystemMessage('🔄 Reconnected to server. Previous session has ended, spawning new session...');
+        const newSessionId = await spawnSession();
+        if (newSessionId && mountedRef.current) {
+            attachSession(newSessionId);
+            addSystemMessage('✅ New session ready.');
+        }
+    }, [listSessions, ensureSessionRunning, spawnSession, streamOutput, attachSession, addSystemMessage]);
+
+    // Open the session picker
+    const openPicker = useCallback(async () => {
+        try {
+            const sessions = await listSessions();
+            if (mountedRef.current) setPickerSessions(sessions);
+        } catch (err) {
+            addSystemMessage(`Error: ${(err as Error).message}`);
+        }
+    }, [listSessions, addSystemMessage]);
+
+    const handlePick = useCallback(async (id: string | null) => {
+        setPickerSessions(null);
+
+        if (id) {
+            if (id === sessionIdRef.current) return;
+            setMessages([]);
+            attachSession(id, pickerSessions?.find(session => session.sessionId === id)?.directory);
+            return;
+        }
+
+        const newSessionId = await spawnSession();
+        if (newSessionId && mountedRef.current) {
+            setMessages([]);
+            attachSession(newSessionId);
+        }
+    }, [pickerSessions, attachSession, spawnSession]);
+
+    const answerPermission = useCallback(async (request: PermissionRequest, decision: PermissionDecision) => {
+        setPermissionRequests(prev => prev.filter(r => r.requestId !== request.requestId));
+
+        try {
+            await clientRef.current?.call('answer-permission', { requestId: request.requestId, decision });
+            addSystemMessage(decision === 'deny'
+                ? `✗ Denied ${request.toolName}`
+                : `✓ Allowed ${request.toolName}${decision === 'allow-always' ? ' (always)' : ''}`);
+        } catch (err) {
+            addSystemMessage(`Error: ${(err as Error).message}`);
+        }
+    }, [addSystemMessage]);
+
+    // Initialize connection
+    useEffect(() => {
+        let rpcClient: RpcClient | null = null;
+        mountedRef.current = true;
+
+        function addListeners(client: RpcClient) {
+            // Tool permission prompts for the current session
+            client.onEvent<PermissionRequest>('permission-request', (request) => {
+                if (!mountedRef.current || request.sessionId !== sessionIdRef.current) return;
+                setPermissionRequests(prev => prev.some(r => r.requestId === request.requestId)
+                    ? prev
+                    : [...prev, request]);
+            });
+
+            // Answered elsewhere (another client), timed out or session ended
+            client.onEvent<PermissionResolvedEvent>('permission-resolved', (event) => {
+                if (!mountedRef.current) return;
+                setPermissionRequests(prev => prev.filter(r => r.requestId !== event.requestId));
+            });
+
+            // The daemon rotated its keys (connectToDaemon saves them)
+            client.onEvent<RekeyEvent>('rekey', () => {
+                if (mountedRef.current) {
+                    addSystemMessage('🔑 Daemon keys rotated');
                 }
+            });
+
+            // Listen for connection state changes
+            client.onConnectionChange((state) => {
+                if (!mountedRef.current) return;
+                setConnectionState(state);
 
-                // Create client
-                const encryption = new Encryption(info.dataKey);
-                rpcClient = new RpcClient(info.dhtPublicKey, encryption);
-                setClient(rpcClient);
-
-                // Listen for connection state changes
-                rpcClient.onConnectionChange((state) => {
-                    if (!mounted) return;
-                    setConnectionState(state);
-
-                    if (state === 'connected') {
-                        setReconnectCount(prev => prev + 1);
-
-                        // Re-spawn session on reconnect (after initial connection)
-                        if (currentSessionId) {
-                            setMessages(prev => [...prev, {
-                                role: 'system',
-                                content: '🔄 Reconnected to server. Spawning new session...',
-                                timestamp: Date.now()
-                            }]);
-
-                            spawnSession().then(newSessionId => {
-                                if (newSessionId && mounted) {
-                                    currentSessionId = newSessionId;
-                                    setSessionId(newSessionId);
-                                    setStatus('ready');
-                                    setMessages(prev => [...prev, {
-                                        role: 'system',
-                                        content: '✅ New session ready.',
-                                        timestamp: Date.now()
-                                    }]);
-                                }
-                            });
+                if (state === 'connected') {
+                    setReconnectCount(prev => prev + 1);
+
+                    // Reattach on reconnect (after initial connection)
+                    if (sessionIdRef.current) {
+                        reattachAfterReconnect();
+                    }
+                } else if (state === 'disconnected' && sessionIdRef.current) {
+                    addSystemMessage('⚠️ Connection lost. Attempting to reconnect...');
+                }
+            });
+        }
+
+        async function init() {
+            try {
+                await connectToDaemon(pairingUrl, deviceName, {
+                    onClient: (created, info) => {
+                        rpcClient = created;
+                        clientRef.current = created;
+                        setClient(created);
+                        if (info.metadata?.host) {
+                            setHost(info.metadata.host);
                         }
-                    } else if (state === 'disconnected' && currentSessionId) {
-                        setMessages(prev => [...prev, {
-                            role: 'system',
-                            content: '⚠️ Connection lost. Attempting to reconnect...',
-                            timestamp: Date.now()
-                        }]);
+                        rootDirsRef.current = info.metadata?.rootDirs;
+                        addListeners(created);
+                    },
+                    onPairingCode: (code) => {
+                        setPairingCode(code);
+                        setStatus('pairing');
                     }
                 });
+                if (!mountedRef.current) return;
+
+                if (typeof attach === 'string') {
+                    // Attach to the requested session, resuming it if needed
+                    const running = await ensureSessionRunning(attach);
+                    if (!mountedRef.current) return;
+                    if (!running) {
+                        throw new Error(`Session not found: ${attach}`);
+                    }
+                    attachSession(attach);
+                    return;
+                }
 
-                // Connect
-                await rpcClient.ensureConnected();
-                if (!mounted) return;
+                if (attach === true) {
+                    // Let the user pick when there is something to pick from
+                    const sessions = await listSessions();
+                    if (!mountedRef.current) return;
+                    if (sessions.length > 0) {
+                        setPickerSessions(sessions);
+                        setStatus('ready');
+                        return;
+                    }
+                }
 
                 // Spawn initial session
-                currentSessionId = await spawnSession();
-                if (!currentSessionId) return;
-
-                setSessionId(currentSessionId);
-                setStatus('ready');
-
-                // Start polling for output
-                pollInterval = setInterval(async () => {
-                    if (!rpcClient || !mounted || !currentSessionId) return;
-
-                    // Skip polling if disconnected
-                    if (rpcClient.getConnectionState() !== 'connected') return;
-
-                    try {
-                        const output = await rpcClient.call<{ messages: SessionOutput[] }>(
-                            'get-output',
-                            { sessionId: currentSessionId, clear: true },
-                            5000
-                        );
-
-                        if (output.messages?.length > 0) {
-                            for (const msg of output.messages) {
-                                if (msg.type === 'session-output' && msg.data.type === 'assistant') {
-                                    const content = extractContent(msg.data);
-                                    if (content) {
-                                        setMessages(prev => [...prev, {
-                                            role: 'assistant',
-                                            content,
-                                            timestamp: Date.now()
-                                        }]);
-                                        setIsThinking(false);
-                                    }
-
-                                    const tools = extractToolUse(msg.data);
-                                    for (const tool of tools) {
-                                        setMessages(prev => [...prev, {
-                                            role: 'tool',
-                                            content: tool,
-                                            timestamp: Date.now()
-                                        }]);
-                                    }
-                                }
-                            }
-                        }
-                    } catch {
-                        // Ignore polling errors
-                    }
-                }, 500);
+                const newSessionId = await spawnSession();
+                if (!newSessionId) return;
+
+                attachSession(newSessionId);
             } catch (err) {
-                if (!mounted) return;
+                if (!mountedRef.current) return;
                 setError((err as Error).message);
                 setStatus('error');
             }
@@ -179,53 +466,250 @@ function ChatApp({ pairingUrl, directory }: ChatAppProps) {
         init();
 
         return () => {
-            mounted = false;
-            if (pollInterval) clearInterval(pollInterval);
+            mountedRef.current = false;
+            subscriptionRef.current?.close();
             if (rpcClient) rpcClient.destroy();
         };
     }, [pairingUrl, directory]);
 
-    // Handle input submission
+    // Transcript viewport
+    const viewportHeight = Math.max(5, terminalRows - RESERVED_ROWS - (usage ? 1 : 0)
+        - (permissionRequests.length > 0 || pickerSessions ? MODAL_ROWS : 0));
+    const maxOffset = Math.max(0, contentHeight - viewportHeight);
+    const firstRendered = Math.max(0, messages.length - MAX_RENDERED_MESSAGES);
+
+    // Keep the view still when output arrives while scrolled up
+    const handleContentResize = useCallback((height: number, delta: number) => {
+        setContentHeight(height);
+        setScrollOffset(offset => offset > 0 ? Math.max(0, offset + delta) : 0);
+    }, []);
+
+    // Scroll so a message is at the top of the viewport
+    const scrollToMessage = useCallback((index: number) => {
+        let top = 0;
+        let total = 0;
+        for (let i = firstRendered; i < messages.length; i++) {
+            const element = messageRefs.current.get(i);
+            const height = element ? measureElement(element).height : 0;
+            if (i < index) top += height;
+            total += height;
+        }
+        setScrollOffset(Math.max(0, Math.min(total - top - viewportHeight, total - viewportHeight)));
+    }, [firstRendered, messages.length, viewportHeight]);
+
+    // Find messages containing the query and jump to the most recent one
+    const runSearch = useCallback((query: string) => {
+        if (!query) {
+            setSearch(null);
+            return;
+        }
+
+        const needle = query.toLowerCase();
+        const matches: number[] = [];
+        for (let i = firstRendered; i < messages.length; i++) {
+            if (searchableText(messages[i]).toLowerCase().includes(needle)) {
+                matches.push(i);
+            }
+        }
+
+        setSearch({ query, matches, current: matches.length - 1 });
+        if (matches.length > 0) {
+            scrollToMessage(matches[matches.length - 1]);
+        }
+    }, [firstRendered, messages, scrollToMessage]);
+
+    // Stop Claude's current turn, keeping the session and its context
+    const interruptTurn = useCallback(async () => {
+        if (!client || !sessionId || !turnRunningRef.current) return;
+
+        try {
+            await client.call('interrupt-session', { sessionId });
+            turnRunningRef.current = false;
+            setIsThinking(false);
+            addSystemMessage('⏸️ Interrupted. Claude keeps the conversation so far.');
+        } catch (err) {
+            addSystemMessage(`Error: ${(err as Error).message}`);
+        }
+    }, [client, sessionId, addSystemMessage]);
+
+    // What slash commands can do to the chat
+    const commandActions = useCallback((rpcClient: RpcClient): ChatActions => ({
+        client: rpcClient,
+        sessionId,
+        directory: sessionDirectory,
+        rootDirs: rootDirsRef.current,
+        print: addSystemMessage,
+        openPicker,
+        switchSession: async (id) => {
+            if (!await ensureSessionRunning(id)) {
+                addSystemMessage(`Session not found: ${id}`);
+                return;
+            }
+            const info = (await listSessions()).find(session => session.sessionId === id);
+            if (!mountedRef.current) return;
+            setMessages([]);
+            attachSession(id, info?.directory);
+        },
+        newSession: async (dir) => {
+            const sessionDir = resolve(sessionDirectory, dir);
+            addSystemMessage(`Starting a new session in ${sessionDir}...`);
+            const id = await requestSpawn(sessionDir);
+            if (!mountedRef.current) return;
+            setMessages([]);
+            attachSession(id, sessionDir);
+        },
+        interrupt: async () => {
+            if (!turnRunningRef.current) {
+                addSystemMessage('Claude is not working on anything.');
+                return;
+            }
+            await interruptTurn();
+        },
+        search: runSearch,
+        clear: () => {
+            setMessages([]);
+            setSearch(null);
+            setScrollOffset(0);
+        },
+        detach: () => {
+            // Leave the session running so it can be reattached later
+            exit();
+        },
+        quit: async () => {
+            if (sessionId) {
+                try {
+                    await rpcClient.call('stop-session', { sessionId });
+                } catch {
+                    // Ignore
+                }
+            }
+            exit();
+        }
+    }), [sessionId, sessionDirectory, exit, openPicker, ensureSessionRunning, listSessions, attachSession, requestSpawn, interruptTurn, runSearch, addSystemMessage]);
+
     const handleSubmit = useCallback(async (value: string) => {
         const trimmed = value.trim();
-        if (!trimmed || !client || !sessionId) return;
+        if (!trimmed || !client) return;
 
-        // Handle commands
-        if (trimmed === '/quit' || trimmed === '/exit' || trimmed === '/q') {
+        if (commands.parse(trimmed)) {
+            setInput('');
+            setCompletions([]);
+            await commands.run(trimmed, commandActions(client));
+            return;
+        }
+
+        if (!sessionId) return;
+
+        // '//' sends a message that starts with '/'
+        const text = trimmed.startsWith('//') ? trimmed.slice(1) : trimmed;
+
+        // The daemon ended the session (e.g. after an idle timeout) - resume it first
+        if (endedRef.current) {
             try {
-                await client.call('stop-session', { sessionId });
-            } catch {
-                // Ignore
+                if (!await ensureSessionRunning(sessionId)) {
+                    addSystemMessage('Session has ended. Use /new or /sessions to start a new one.');
+                    return;
+                }
+            } catch (err) {
+                addSystemMessage(`Error: ${(err as Error).message}`);
+                return;
             }
-            exit();
-            return;
+            endedRef.current = false;
+            addSystemMessage('▶️ Resumed session.');
+            streamOutput(sessionId, subscriptionRef.current?.getLastSeq());
         }
 
         // Add user message
         setMessages(prev => [...prev, {
             role: 'user',
-            content: trimmed,
+            content: text,
             timestamp: Date.now()
         }]);
         setInput('');
         setIsThinking(true);
+        turnRunningRef.current = true;
 
         // Send to Claude
         try {
-            await client.call('send-message', { sessionId, text: trimmed });
+            await client.call('send-message', { sessionId, text });
         } catch (err) {
-            setMessages(prev => [...prev, {
-                role: 'system',
-                content: `Error: ${(err as Error).message}`,
-                timestamp: Date.now()
-            }]);
+            // e.g. the daily budget is spent
+            addSystemMessage(`Error: ${(err as Error).message}`);
             setIsThinking(false);
+            turnRunningRef.current = false;
+        }
+    }, [client, sessionId, commandActions, ensureSessionRunning, streamOutput, addSystemMessage]);
+
+    // Complete a slash command or its argument
+    const completeInput = useCallback(async () => {
+        if (!client) return;
+
+        const completion = await commands.complete(input, commandActions(client));
+        if (!completion || !mountedRef.current) return;
+
+        setInput(completion.value);
+        setInputKey(prev => prev + 1);
+        setCompletions(completion.candidates);
+    }, [client, input, commandActions]);
+
+    // Handle Esc (the picker and permission prompts use it themselves), Tab,
+    // scrolling, search navigation, Ctrl+O, Ctrl+R and Ctrl+C
+    useInput((input, key) => {
+        const modalOpen = pickerSessions !== null || permissionRequests.length > 0;
+
+        if (key.tab) {
+            if (!modalOpen) completeInput();
+            return;
+        }
+
+        if (key.escape) {
+            if (modalOpen) return;
+            if (search) {
+                setSearch(null);
+            } else {
+                interruptTurn();
+            }
+            return;
+        }
+
+        const page = Math.max(1, viewportHeight - 1);
+        if (key.pageUp) {
+            setScrollOffset(offset => Math.min(Math.min(offset, maxOffset) + page, maxOffset));
+            return;
+        }
+        if (key.pageDown) {
+            setScrollOffset(offset => Math.max(0, Math.min(offset, maxOffset) - page));
+            return;
+        }
+        if (key.home) {
+            setScrollOffset(maxOffset);
+            return;
+        }
+        if (key.end) {
+            setScrollOffset(0);
+            return;
+        }
+
+        // Previous and next search match
+        if (key.ctrl && (input === 'p' || input === 'n') && search && search.matches.length > 0) {
+            const count = search.matches.length;
+            const current = (search.current + (input === 'n' ? 1 : -1) + count) % count;
+            setSearch({ ...search, current });
+            scrollToMessage(search.matches[current]);
+            return;
         }
-    }, [client, sessionId, exit]);
 
-    // Handle Ctrl+C
-    useInput((_, key) => {
-        if (key.ctrl && key.return === false) {
+        if (key.ctrl && input === 'o') {
+            setToolsExpanded(prev => !prev);
+            return;
+        }
+
+        if (key.ctrl && input === 'r') {
+            setRawMarkdown(prev => !prev);
+            return;
+        }
+
+        if (key.ctrl && input === 'c') {
             if (client && sessionId) {
                 client.call('stop-session', { sessionId }).catch(() => {});
             }
@@ -243,12 +727,22 @@ function ChatApp({ pairingUrl, directory }: ChatAppProps) {
         );
     }
 
+    if (status === 'pairing') {
+        return (
+            <Box flexDirection="column" padding={1}>
+                <Text color="cyan" bold>P2P Claude Code Chat</Text>
+                <Text>Waiting for the daemon operator to approve this device...</Text>
+                <Text>Confirm they see the code: <Text color="green" bold>{pairingCode}</Text></Text>
+            </Box>
+        );
+    }
+
     if (status === 'spawning') {
         return (
             <Box flexDirection="column" padding={1}>
                 <Text color="cyan" bold>P2P Claude Code Chat</Text>
                 <Text color="gray">Spawning Claude session...</Text>
-                <Text color="gray" dimColor>Directory: {directory}</Text>
+                <Text color="gray" dimColor>Directory: {sessionDirectory}</Text>
             </Box>
         );
     }
@@ -273,64 +767,182 @@ function ChatApp({ pairingUrl, directory }: ChatAppProps) {
     return (
         <Box flexDirection="column" padding={1}>
             {/* Header */}
-            <Box marginBottom={1}>
-                <Text color="cyan" bold>P2P Claude Code Chat</Text>
-                <Text color="gray"> </Text>
-                {connectionIndicator}
-                <Text color="gray"> • </Text>
-                <Text color="gray">{host}</Text>
-                <Text color="gray"> • </Text>
-                <Text color="gray" dimColor>{directory}</Text>
+            <Box flexDirection="column" marginBottom={1}>
+                <Box>
+                    <Text color="cyan" bold>P2P Claude Code Chat</Text>
+                    <Text color="gray"> </Text>
+                    {connectionIndicator}
+                    <Text color="gray"> • </Text>
+                    <Text color="gray">{host}</Text>
+                    <Text color="gray"> • </Text>
+                    <Text color="gray" dimColor>{sessionDirectory}</Text>
+                </Box>
+                {usage && <Text color="gray" dimColor>{formatUsage(usage)}</Text>}
             </Box>
 
-            {/* Messages */}
+            {/* Transcript */}
+            <ScrollView height={viewportHeight} offset={Math.min(scrollOffset, maxOffset)} onContentResize={handleContentResize}>
+                {messages.slice(firstRendered).map((msg, i) => {
+                    const index = firstRendered + i;
+                    return (
+                        <Box
+                            key={index}
+                            ref={(element: DOMElement | null) => {
+                                if (element) messageRefs.current.set(index, element);
+                                else messageRefs.current.delete(index);
+                            }}
+                        >
+                            <MessageView message={msg} toolsExpanded={toolsExpanded} rawMarkdown={rawMarkdown} query={search?.query} />
+                        </Box>
+                    );
+                })}
+            </ScrollView>
             <Box flexDirection="column" marginBottom={1}>
-                {messages.slice(-20).map((msg, i) => (
-                    <Box key={i} marginBottom={0}>
-                        {msg.role === 'user' && (
-                            <Text>
-                                <Text color="green" bold>You: </Text>
-                                <Text>{msg.content}</Text>
-                            </Text>
-                        )}
-                        {msg.role === 'assistant' && (
-                            <Text>
-                                <Text color="blue" bold>Claude: </Text>
-                                <Text>{msg.content}</Text>
-                            </Text>
-                        )}
-                        {msg.role === 'tool' && (
-                            <Text color="magenta" dimColor>[Tool: {msg.content}]</Text>
-                        )}
-                        {msg.role === 'system' && (
-                            <Text color="yellow">{msg.content}</Text>
-                        )}
-                    </Box>
-                ))}
-                {isThinking && (
-                    <Text color="gray" dimColor>Claude is thinking...</Text>
+                {isThinking ? <Text color="gray" dimColor>Claude is thinking...</Text> : <Text> </Text>}
+                {(maxOffset > 0 || search) && (
+                    <Text color="gray" dimColor>{describeScroll(Math.min(scrollOffset, maxOffset), viewportHeight, contentHeight, search)}</Text>
                 )}
             </Box>
 
-            {/* Input */}
-            <Box>
-                <Text color="green" bold>&gt; </Text>
-                <TextInput
-                    value={input}
-                    onChange={setInput}
-                    onSubmit={handleSubmit}
-                    placeholder="Type a message..."
+            {/* Permission prompts and the session picker replace the input while open */}
+            {permissionRequests.length > 0 ? (
+                <PermissionPrompt
+                    request={permissionRequests[0]}
+                    queued={permissionRequests.length - 1}
+                    onAnswer={(decision) => answerPermission(permissionRequests[0], decision)}
                 />
-            </Box>
-
-            {/* Help */}
+            ) : pickerSessions ? (
+                <SessionPicker
+                    sessions={pickerSessions}
+                    currentSessionId={sessionId}
+                    directory={sessionDirectory}
+                    onSelect={handlePick}
+                    onCancel={sessionId ? () => setPickerSessions(null) : undefined}
+                />
+            ) : (
+                <Box>
+                    <Text color="green" bold>&gt; </Text>
+                    <TextInput
+                        key={inputKey}
+                        value={input}
+                        onChange={(value) => {
+                            setInput(value);
+                            setCompletions([]);
+                        }}
+                        onSubmit={handleSubmit}
+                        placeholder="Type a message, or /help for commands..."
+                    />
+                </Box>
+            )}
+
+            {/* Completion candidates, otherwise help */}
             <Box marginTop={1}>
-                <Text color="gray" dimColor>/quit to exit • Ctrl+C to cancel</Text>
+                {completions.length > 0 ? (
+                    <Text color="cyan">
+                        {completions.slice(0, MAX_SHOWN_COMPLETIONS).join('  ')}
+                        {completions.length > MAX_SHOWN_COMPLETIONS && <Text color="gray"> … {completions.length - MAX_SHOWN_COMPLETIONS} more</Text>}
+                    </Text>
+                ) : (
+                    <Text color="gray" dimColor>Esc interrupt • PgUp/PgDn/Home/End scroll • Ctrl+O tools • Ctrl+R raw text • /help commands • Tab completes</Text>
+                )}
             </Box>
         </Box>
     );
 }
 
+interface MessageViewProps {
+    message: Message;
+    toolsExpanded: boolean;
+    rawMarkdown: boolean;
+    query?: string; // Search matches to highlight
+}
+
+function MessageView({ message, toolsExpanded, rawMarkdown, query }: MessageViewProps) {
+    switch (message.role) {
+        case 'user':
+            return (
+                <Text>
+                    <Text color="green" bold>You: </Text>
+                    <Highlight text={message.content} query={query} />
+                </Text>
+            );
+
+        case 'assistant':
+            return (
+                <Box flexDirection="column">
+                    <Text color="blue" bold>Claude:</Text>
+                    {rawMarkdown
+                        ? <Text><Highlight text={message.content} query={query} /></Text>
+                        : <Markdown text={message.content} query={query} />}
+                </Box>
+            );
+
+        case 'tool':
+            return message.tool ? <ToolCallView call={message.tool} expanded={toolsExpanded} /> : null;
+
+        case 'system':
+            return <Text color="yellow"><Highlight text={message.content} query={query} /></Text>;
+
+        case 'status':
+            return <Text color="gray" dimColor><Highlight text={message.content} query={query} /></Text>;
+    }
+}
+
+// Text a message is searched by
+function searchableText(message: Message): string {
+    if (message.tool) {
+        return [message.tool.name, describeInput(message.tool.input), message.tool.result?.content ?? ''].join('\n');
+    }
+    return message.content;
+}
+
+// Status line: visible lines and search position
+function describeScroll(offset: number, height: number, total: number, search: SearchState | null): string {
+    const parts: string[] = [];
+    if (total > height) {
+        const last = total - offset;
+        parts.push(`Lines ${Math.max(1, last - height + 1)}–${last} of ${total}`);
+        if (offset > 0) parts.push('End to follow');
+    }
+    if (search) {
+        parts.push(search.matches.length > 0
+            ? `"${search.query}" ${search.current + 1}/${search.matches.length} (Ctrl+P/Ctrl+N, Esc to clear)`
+            : `No matches for "${search.query}"`);
+    }
+    return parts.join(' • ');
+}
+
+function formatTokens(count: number): string {
+    return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : count.toString();
+}
+
+function formatUsage(usage: GetUsageResult): string {
+    const parts: string[] = [];
+    if (usage.session) {
+        const { session } = usage;
+        const tokensIn = session.inputTokens + session.cacheCreationTokens + session.cacheReadTokens;
+        parts.push(`Session $${session.costUsd.toFixed(2)} · ${formatTokens(tokensIn)} in / ${formatTokens(session.outputTokens)} out · ${session.turns} turns`);
+    }
+    parts.push(`Today $${usage.client.today.costUsd.toFixed(2)}`);
+    if (usage.budget) {
+        parts.push(`$${usage.budget.remainingUsd.toFixed(2)} left in budget`);
+    }
+    return parts.join(' • ');
+}
+
+function describeSessionEnd(reason?: SessionEndReason): string {
+    switch (reason) {
+        case 'idle-timeout':
+            return '⏹️ Session stopped after being idle. Send a message to resume it.';
+        case 'max-lifetime':
+            return '⏹️ Session reached its maximum lifetime. Send a message to resume it.';
+        case 'stopped':
+            return '⏹️ Session was stopped.';
+        default:
+            return '⏹️ Claude exited. Send a message to resume the session.';
+    }
+}
+
 function extractContent(message: ClaudeMessage): string | null {
     if (!message.message?.content) return null;
 
@@ -346,7 +958,7 @@ function extractContent(message: ClaudeMessage): string | null {
     return textBlocks.length > 0 ? textBlocks.join('\n') : null;
 }
 
-function extractToolUse(message: ClaudeMessage): string[] {
+function extractToolUse(message: ClaudeMessage): ToolCall[] {
     if (!message.message?.content) return [];
     if (typeof message.message.content === 'string') return [];
 
@@ -354,13 +966,50 @@ function extractToolUse(message: ClaudeMessage): string[] {
         .filter((block): block is ContentBlock & { name: string } =>
             block.type === 'tool_use' && typeof block.name === 'string'
         )
-        .map(block => block.name);
+        .map(block => ({ id: block.id ?? '', name: block.name, input: block.input }));
+}
+
+// Tool results in a user message, keyed by the tool_use id they answer
+function extractToolResults(message: ClaudeMessage): Map<string, ToolResult> {
+    const results = new Map<string, ToolResult>();
+    if (!message.message?.content || typeof message.message.content === 'string') return results;
+
+    for (const block of message.message.content as ContentBlock[]) {
+        if (block.type === 'tool_result' && block.tool_use_id) {
+            results.set(block.tool_use_id, { content: toolResultText(block.content), isError: block.is_error === true });
+        }
+    }
+    return results;
+}
+
+function describeSystemMessage(message: ClaudeMessage): string | null {
+    switch (message.subtype) {
+        case 'init':
+            return `⚙️ Claude session started${message.model ? ` (${message.model})` : ''}`;
+        case 'session_ended':
+            return null; // Shown from the session-ended output
+        default:
+            return message.subtype ? `⚙️ ${message.subtype}` : null;
+    }
+}
+
+function describeResult(message: ClaudeMessage): string {
+    const details = [
+        message.duration_ms !== undefined ? `${(message.duration_ms / 1000).toFixed(1)}s` : null,
+        message.num_turns !== undefined ? `${message.num_turns} turn(s)` : null,
+        // Claude reports a running total for its process, not the turn's cost
+        message.total_cost_usd !== undefined ? `$${message.total_cost_usd.toFixed(4)} session total` : null
+    ].filter(Boolean).join(' · ');
+
+    const failed = message.is_error || (message.subtype !== undefined && message.subtype !== 'success');
+    const status = failed ? `✗ Turn ended: ${message.subtype || 'error'}` : '✓ Done';
+    return details ? `${status} · ${details}` : status;
 }
 
 // CLI entry point
-export async function runChat(pairingUrl: string, directory: string): Promise<void> {
+export async function runChat(pairingUrl: string, directory: string, attach?: string | true, deviceName = hostname()): Promise<void> {
     const { waitUntilExit } = render(
-        <ChatApp pairingUrl={pairingUrl} directory={directory} />
+        <ChatApp pairingUrl={pairingUrl} directory={directory} attach={attach} deviceName={deviceName} />
     );
     await waitUntilExit();
 }
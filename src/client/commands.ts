@@ -0,0 +1,350 @@
+/**
+ * Slash commands for the chat client
+ *
+ * Commands are registered in a CommandRegistry, which parses input starting
+ * with `/`, runs the matching command and completes command names and
+ * arguments for Tab. Commands act on the chat through ChatActions.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import type { RpcClient } from './rpc.js';
+import { PERMISSION_MODES, TRANSCRIPT_FORMATS } from '../rpc-schemas.js';
+import type {
+    PermissionMode,
+    PersistedSession,
+    SessionInfo,
+    TranscriptFormat,
+    UsageTotals
+} from '../types.js';
+
+/**
+ * What commands can do to the chat
+ */
+export interface ChatActions {
+    client: RpcClient;
+    sessionId: string | null;
+    directory: string; // Current session's directory
+    rootDirs?: string[]; // Advertised by the daemon
+    print: (text: string) => void; // Show a system message
+    openPicker: () => void;
+    switchSession: (sessionId: string) => Promise<void>; // Attach, resuming if needed
+    newSession: (directory: string) => Promise<void>;
+    interrupt: () => Promise<void>;
+    search: (query: string) => void;
+    clear: () => void;
+    detach: () => void;
+    quit: () => Promise<void>;
+}
+
+export interface SlashCommand {
+    name: string;
+    aliases?: string[];
+    args?: string; // Usage hint, e.g. '<name>'
+    description: string;
+    needsSession?: boolean;
+    run: (args: string, actions: ChatActions) => Promise<void> | void;
+    // Candidates for the argument being typed
+    complete?: (partial: string, actions: ChatActions) => Promise<string[]> | string[];
+}
+
+export interface Completion {
+    value: string; // New input text
+    candidates: string[]; // Shown when more than one matches
+}
+
+const MODEL_ALIASES = ['sonnet', 'opus', 'haiku'];
+
+export class CommandRegistry {
+    private commands: SlashCommand[] = [];
+    private byName = new Map<string, SlashCommand>();
+
+    register(command: SlashCommand): void {
+        for (const name of [command.name, ...(command.aliases || [])]) {
+            if (this.byName.has(name)) {
+                throw new Error(`Command /${name} is already registered`);
+            }
+            this.byName.set(name, command);
+        }
+        this.commands.push(command);
+    }
+
+    get(name: string): SlashCommand | undefined {
+        return this.byName.get(name);
+    }
+
+    list(): SlashCommand[] {
+        return [...this.commands];
+    }
+
+    /**
+     * Split `/name args` into its parts, or null if the input is not a command
+     * Input starting with `//` is a message that starts with `/`
+     */
+    parse(input: string): { name: string; args: string } | null {
+        if (!input.startsWith('/') || input.startsWith('//')) {
+            return null;
+        }
+        const match = /^\/(\S*)\s*([\s\S]*)$/.exec(input)!;
+        return { name: match[1], args: match[2].trim() };
+    }
+
+    /**
+     * Run a command line
+     */
+    async run(input: string, actions: ChatActions): Promise<void> {
+        const parsed = this.parse(input);
+        if (!parsed) return;
+
+        const command = this.byName.get(parsed.name);
+        if (!command) {
+            actions.print(`Unknown command /${parsed.name}. Type /help for commands, or start with // to send a message beginning with /.`);
+            return;
+        }
+
+        if (command.needsSession && !actions.sessionId) {
+            actions.print(`/${command.name} needs a session. Use /new or /attach first.`);
+            return;
+        }
+
+        try {
+            await command.run(parsed.args, actions);
+        } catch (err) {
+            actions.print(`Error: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Complete the command name, or the argument once the name is typed
+     * Returns null when nothing matches
+     */
+    async complete(input: string, actions: ChatActions): Promise<Completion | null> {
+        const parsed = this.parse(input);
+        if (!parsed) return null;
+
+        if (!/\s/.test(input)) {
+            const names = this.commands.map(command => command.name).filter(name => name.startsWith(parsed.name));
+            return completeFrom(names, name => `/${name} `);
+        }
+
+        const command = this.byName.get(parsed.name);
+        if (!command?.complete) return null;
+
+        try {
+            const options = (await command.complete(parsed.args, actions)).filter(option => option.startsWith(parsed.args));
+            return completeFrom(options, option => `/${parsed.name} ${option}`);
+        } catch {
+            return null; // e.g. not connected
+        }
+    }
+}
+
+// One match completes fully; several complete to their common prefix
+function completeFrom(options: string[], format: (option: string) => string): Completion | null {
+    if (options.length === 0) return null;
+    if (options.length === 1) return { value: format(options[0]), candidates: [] };
+
+    let prefix = options[0];
+    for (const option of options) {
+        while (!option.startsWith(prefix)) prefix = prefix.slice(0, -1);
+    }
+    return { value: format(prefix).trimEnd(), candidates: options };
+}
+
+// Running and resumable sessions, running ones first
+async function knownSessions(client: RpcClient): Promise<Array<SessionInfo | PersistedSession>> {
+    const running = await client.call('list-sessions', {});
+    const resumable = await client.call('list-resumable-sessions', {}).catch(() => []);
+    return [...running, ...resumable];
+}
+
+/**
+ * Parse `<file> [--format md|json|html]`; without --format the file's
+ * extension decides, defaulting to Markdown
+ */
+function parseExportArgs(args: string): { file: string; format: TranscriptFormat } | null {
+    const match = /^(.*?)\s*(?:(?:--format|-f)\s+(\S+))?$/.exec(args);
+    const file = match?.[1].trim();
+    if (!file) return null;
+
+    const extension = extname(file).slice(1).toLowerCase();
+    const format = match![2] ?? (extension === 'htm' ? 'html' : extension === 'markdown' ? 'md' : extension);
+    if (TRANSCRIPT_FORMATS.includes(format as TranscriptFormat)) {
+        return { file, format: format as TranscriptFormat };
+    }
+    return match![2] ? null : { file, format: 'md' };
+}
+
+function formatTotals(label: string, totals: UsageTotals): string {
+    const tokensIn = totals.inputTokens + totals.cacheCreationTokens + totals.cacheReadTokens;
+    return `${label}: $${totals.costUsd.toFixed(4)} · ${tokensIn} tokens in (${totals.cacheReadTokens} cached) / ${totals.outputTokens} out · ${totals.turns} turns`;
+}
+
+/**
+ * The built-in commands
+ */
+export function createCommandRegistry(): CommandRegistry {
+    const registry = new CommandRegistry();
+
+    registry.register({
+        name: 'help',
+        description: 'List commands',
+        run: (_, actions) => {
+            const lines = registry.list().map(command => {
+                const usage = `/${command.name}${command.args ? ` ${command.args}` : ''}`;
+                const aliases = command.aliases?.length ? ` (also ${command.aliases.map(a => `/${a}`).join(', ')})` : '';
+                return `  ${usage.padEnd(24)} ${command.description}${aliases}`;
+            });
+            actions.print(['Commands (Tab completes):', ...lines].join('\n'));
+        }
+    });
+
+    registry.register({
+        name: 'sessions',
+        description: 'Pick a session to switch to, or start a new one',
+        run: (_, actions) => actions.openPicker()
+    });
+
+    registry.register({
+        name: 'attach',
+        args: '<session id>',
+        description: 'Switch to a running or resumable session (an id prefix is enough)',
+        run: async (args, actions) => {
+            if (!args) {
+                actions.openPicker();
+                return;
+            }
+
+            const matches = (await knownSessions(actions.client)).filter(session => session.sessionId.startsWith(args));
+            const ids = Array.from(new Set(matches.map(session => session.sessionId)));
+            if (ids.length === 0) {
+                actions.print(`No session matches ${args}`);
+            } else if (ids.length > 1) {
+                actions.print(`${args} matches ${ids.length} sessions: ${ids.map(id => id.slice(0, 8)).join(', ')}`);
+            } else if (ids[0] === actions.sessionId) {
+                actions.print('Already attached to that session.');
+            } else {
+                await actions.switchSession(ids[0]);
+            }
+        },
+        complete: async (_, actions) => (await knownSessions(actions.client)).map(session => session.sessionId)
+    });
+
+    registry.register({
+        name: 'new',
+        args: '[directory]',
+        description: 'Start a new session, in the current directory by default',
+        run: (args, actions) => actions.newSession(args || actions.directory),
+        complete: (_, actions) => actions.rootDirs ?? []
+    });
+
+    registry.register({
+        name: 'model',
+        args: '<name>',
+        description: 'Switch the model from the next turn',
+        needsSession: true,
+        run: async (args, actions) => {
+            if (!args) {
+                actions.print('Usage: /model <name>, e.g. /model sonnet');
+                return;
+            }
+            await actions.client.call('configure-session', { sessionId: actions.sessionId!, model: args });
+            actions.print(`🔧 Model set to ${args}`);
+        },
+        complete: () => MODEL_ALIASES
+    });
+
+    registry.register({
+        name: 'mode',
+        args: '<permission mode>',
+        description: `Switch the permission mode (${PERMISSION_MODES.join(', ')})`,
+        needsSession: true,
+        run: async (args, actions) => {
+            if (!PERMISSION_MODES.includes(args as PermissionMode)) {
+                actions.print(`Usage: /mode <${PERMISSION_MODES.join('|')}>`);
+                return;
+            }
+            await actions.client.call('configure-session', { sessionId: actions.sessionId!, permissionMode: args as PermissionMode });
+            actions.print(`🔧 Permission mode set to ${args}`);
+        },
+        complete: () => PERMISSION_MODES
+    });
+
+    registry.register({
+        name: 'usage',
+        description: 'Show token and cost totals for this session and device',
+        run: async (_, actions) => {
+            const usage = await actions.client.call('get-usage', actions.sessionId ? { sessionId: actions.sessionId } : {});
+            const lines = [
+                ...(usage.session ? [formatTotals('Session', usage.session)] : []),
+                formatTotals('Today', usage.client.today),
+                formatTotals('All time', usage.client.total)
+            ];
+            if (usage.budget) {
+                const limits = [
+                    usage.budget.dailyUsd !== undefined ? `$${usage.budget.dailyUsd} per device` : null,
+                    usage.budget.dailyTotalUsd !== undefined ? `$${usage.budget.dailyTotalUsd} for all devices` : null
+                ].filter(Boolean).join(', ');
+                lines.push(`Budget: $${usage.budget.remainingUsd.toFixed(2)} left today (${limits})`);
+            }
+            actions.print(lines.join('\n'));
+        }
+    });
+
+    registry.register({
+        name: 'interrupt',
+        description: "Stop Claude's current turn (same as Esc)",
+        needsSession: true,
+        run: (_, actions) => actions.interrupt()
+    });
+
+    registry.register({
+        name: 'search',
+        args: '<text>',
+        description: 'Highlight matches in the transcript (Ctrl+P/Ctrl+N to move, Esc to clear)',
+        run: (args, actions) => actions.search(args)
+    });
+
+    registry.register({
+        name: 'export',
+        args: '<file> [--format md|json|html]',
+        description: 'Save the full session transcript (prompts, replies, tool calls, usage)',
+        needsSession: true,
+        run: async (args, actions) => {
+            const parsed = parseExportArgs(args);
+            if (!parsed) {
+                actions.print(`Usage: /export <file> [--format ${TRANSCRIPT_FORMATS.join('|')}]`);
+                return;
+            }
+
+            const result = await actions.client.call('export-transcript', {
+                sessionId: actions.sessionId!,
+                format: parsed.format
+            });
+            const path = resolve(parsed.file);
+            writeFileSync(path, result.content);
+            actions.print(`💾 Transcript saved to ${path} (${result.format})`);
+        }
+    });
+
+    registry.register({
+        name: 'clear',
+        description: 'Clear the transcript on screen (the session keeps its context)',
+        run: (_, actions) => actions.clear()
+    });
+
+    registry.register({
+        name: 'detach',
+        description: 'Exit and leave the session running',
+        run: (_, actions) => actions.detach()
+    });
+
+    registry.register({
+        name: 'quit',
+        aliases: ['exit', 'q'],
+        description: 'Stop the session and exit',
+        run: (_, actions) => actions.quit()
+    });
+
+    return registry;
+}
@@ -0,0 +1,72 @@
+/**
+ * Connect to a daemon from a pairing URL and register this device
+ * Shared by the chat UI and `p2p-chat exec`
+ */
+
+import { RpcClient, parsePairingUrl, type PairingInfo } from './rpc.js';
+import { Encryption, computeSas } from '../encryption.js';
+import { loadOrCreateIdentity, loadDataKey, saveDataKey } from './identity.js';
+import type { RekeyEvent } from '../types.js';
+
+export interface ConnectHooks {
+    onClient?: (client: RpcClient, info: PairingInfo) => void; // Called before connecting, to add listeners
+    onPairingCode?: (code: string) => void; // The invite needs the daemon operator to confirm this code
+}
+
+export interface DaemonConnection {
+    client: RpcClient;
+    info: PairingInfo;
+}
+
+/**
+ * Create a client for the daemon in a pairing URL, connect and pair
+ * Uses the data key from an earlier pairing or rekey when there is one, and
+ * remembers keys received from an invite or a rekey for the next run
+ */
+export async function connectToDaemon(pairingUrl: string, deviceName: string, hooks: ConnectHooks = {}): Promise<DaemonConnection> {
+    const info = parsePairingUrl(pairingUrl);
+
+    // The saved key can be newer than a v1 URL's after a rotation; otherwise
+    // only the invite secret is known until pairing completes
+    const identity = loadOrCreateIdentity();
+    const saved = loadDataKey(info.dhtPublicKey);
+    const key = saved && (!info.dataKey || saved.keyId >= (info.keyId ?? 0))
+        ? saved
+        : info.dataKey
+            ? { dataKey: info.dataKey, keyId: info.keyId ?? 0, dhtPublicKey: info.dhtPublicKey }
+            : undefined;
+    if (!key && !info.invite) {
+        throw new Error('Pairing URL has no data key or invite');
+    }
+
+    const encryption = key ? new Encryption(key.dataKey, key.keyId) : new Encryption(info.invite!.secret);
+    const client = new RpcClient(key?.dhtPublicKey ?? info.dhtPublicKey, encryption, identity);
+
+    // The daemon rotated its keys; remember them for the next run
+    client.onEvent<RekeyEvent>('rekey', (event) => {
+        saveDataKey(info.dhtPublicKey, event);
+    });
+    hooks.onClient?.(client, info);
+
+    // Connect and register this device (an invite connects with its own secret)
+    if (key) {
+        await client.ensureConnected();
+        await client.pair(deviceName);
+    } else {
+        const invite = info.invite!;
+        if (invite.expiresAt <= Date.now()) {
+            throw new Error('This pairing invite has expired. Ask for a new one with `p2p-claude pair`.');
+        }
+        if (invite.confirm) {
+            hooks.onPairingCode?.(computeSas(invite.secret, info.dhtPublicKey, identity.publicKey.toString('base64')));
+        }
+        const result = await client.pairWithInvite(deviceName, invite);
+        saveDataKey(info.dhtPublicKey, {
+            dataKey: result.dataKey!,
+            keyId: result.keyId ?? 0,
+            dhtPublicKey: info.dhtPublicKey
+        });
+    }
+
+    return { client, info };
+}
@@ -0,0 +1,209 @@
+/**
+ * Non-interactive client: send one prompt and stream the reply (`p2p-chat exec`)
+ *
+ * Spawns a session (or attaches to one), sends the prompt, writes Claude's
+ * output to stdout as text or newline-delimited JSON and exits when the turn's
+ * `result` message arrives. Progress and errors go to stderr, so stdout only
+ * carries the reply.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { connectToDaemon } from './connect.js';
+import { isWithinRoots, type RpcClient } from './rpc.js';
+import type { ClaudeMessage, PermissionMode, PermissionRequest } from '../types.js';
+
+export type ExecOutput = 'text' | 'ndjson';
+
+export interface ExecOptions {
+    pairingUrl: string;
+    directory: string;
+    prompt: string;
+    deviceName: string;
+    output: ExecOutput;
+    attach?: string; // Send the prompt to this session instead of spawning one
+    keep: boolean; // Leave a spawned session running
+    permissionMode?: PermissionMode;
+    model?: string;
+}
+
+// Exit statuses
+export const EXIT_OK = 0;
+export const EXIT_TURN_FAILED = 1; // Claude ended the turn with an error (e.g. max turns)
+export const EXIT_USAGE = 2; // Bad arguments
+export const EXIT_FAILED = 3; // Connecting, spawning or sending failed, or the session ended first
+export const EXIT_INTERRUPTED = 130;
+
+// Told to Claude when it asks for a tool nobody can approve
+const DENY_MESSAGE = 'Denied: this session is run non-interactively by p2p-chat exec. Use a permission mode that does not need approval.';
+
+function log(message: string): void {
+    process.stderr.write(`${message}\n`);
+}
+
+/**
+ * Make sure the session is running, resuming it if the daemon restarted
+ */
+async function ensureRunning(client: RpcClient, sessionId: string): Promise<void> {
+    const sessions = await client.call('list-sessions', {});
+    if (sessions.some(session => session.sessionId === sessionId)) {
+        return;
+    }
+
+    await client.call('resume-session', { sessionId });
+}
+
+// The main argument of a tool call, for the progress line
+function summarizeInput(input: unknown): string {
+    if (!input || typeof input !== 'object') return '';
+    const fields = input as Record<string, unknown>;
+    for (const key of ['command', 'file_path', 'notebook_path', 'path', 'url', 'pattern', 'query']) {
+        if (typeof fields[key] === 'string') return (fields[key] as string).split('\n')[0];
+    }
+    return '';
+}
+
+/**
+ * Write one output in text mode: Claude's text to stdout, tool calls to stderr
+ */
+function writeText(message: ClaudeMessage): void {
+    if (message.type !== 'assistant' || !message.message) return;
+
+    const { content } = message.message;
+    if (typeof content === 'string') {
+        process.stdout.write(`${content}\n`);
+        return;
+    }
+
+    for (const block of content) {
+        if (block.type === 'text' && block.text) {
+            process.stdout.write(`${block.text}\n`);
+        } else if (block.type === 'tool_use') {
+            log(`⏺ ${block.name}(${summarizeInput(block.input)})`);
+        }
+    }
+}
+
+/**
+ * Exit status for the message that ends a turn
+ */
+function resultStatus(message: ClaudeMessage): number {
+    const failed = message.is_error === true || (message.subtype !== undefined && message.subtype !== 'success');
+    if (failed) {
+        log(`Turn ended: ${message.subtype || 'error'}`);
+    }
+    return failed ? EXIT_TURN_FAILED : EXIT_OK;
+}
+
+/**
+ * Run one prompt and return the exit status
+ */
+export async function runExec(options: ExecOptions): Promise<number> {
+    let client: RpcClient | null = null;
+    let sessionId: string | null = null;
+    let owned = false; // Spawned here, so stopped here unless --keep
+    let interrupted = false;
+
+    // Ctrl+C: stop Claude's turn, then clean up as usual
+    const onSigint = () => {
+        if (interrupted) process.exit(EXIT_INTERRUPTED);
+        interrupted = true;
+        log('Interrupting...');
+        if (client && sessionId) {
+            client.call('interrupt-session', { sessionId }).catch(() => {});
+        }
+    };
+    process.on('SIGINT', onSigint);
+
+    try {
+        const connection = await connectToDaemon(options.pairingUrl, options.deviceName, {
+            onPairingCode: (code) => log(`Waiting for the daemon operator to approve this device. Confirm they see the code: ${code}`)
+        });
+        client = connection.client;
+        const rpcClient = client;
+
+        if (options.attach) {
+            sessionId = options.attach;
+            await ensureRunning(rpcClient, sessionId);
+        } else {
+            const rootDirs = connection.info.metadata?.rootDirs;
+            if (!isWithinRoots(options.directory, rootDirs)) {
+                throw new Error(`${options.directory} is outside the daemon's allowed directories: ${rootDirs!.join(', ')}`);
+            }
+
+            const result = await rpcClient.call('spawn-session', {
+                directory: options.directory,
+                sessionId: randomUUID(),
+                permissionMode: options.permissionMode,
+                model: options.model
+            });
+            sessionId = result.sessionId;
+            owned = true;
+        }
+        log(`Session ${sessionId}`);
+
+        // Nobody can answer permission prompts; deny them so Claude carries on
+        const currentSession = sessionId;
+        rpcClient.onEvent<PermissionRequest>('permission-request', (request) => {
+            if (request.sessionId !== currentSession) return;
+            log(`Denied ${request.toolName}: approval needs an interactive client`);
+            rpcClient.call('answer-permission', { requestId: request.requestId, decision: 'deny', message: DENY_MESSAGE }).catch(() => {});
+        });
+
+        // A spawned session's output starts with its init message; for an
+        // attached one, skip what was already there
+        let sinceSeq = 0;
+        if (!owned) {
+            const latest = await rpcClient.call('get-output', { sessionId, sinceSeq: Number.MAX_SAFE_INTEGER });
+            sinceSeq = latest.latestSeq;
+        }
+        const subscription = await rpcClient.subscribeSession(sessionId, { sinceSeq });
+
+        try {
+            await rpcClient.call('send-message', { sessionId, text: options.prompt });
+        } catch (err) {
+            subscription.close();
+            throw err;
+        }
+
+        let status = EXIT_FAILED;
+        let finished = false;
+        for await (const output of subscription) {
+            if (options.output === 'ndjson') {
+                process.stdout.write(JSON.stringify(output) + '\n');
+            } else if (output.type === 'session-output') {
+                writeText(output.data);
+            }
+
+            if (output.type === 'session-ended') {
+                log(`Session ended before the turn finished (${output.reason ?? 'exited'})`);
+                finished = true;
+                break;
+            }
+            if (output.type === 'session-output' && output.data.type === 'result') {
+                status = interrupted ? EXIT_INTERRUPTED : resultStatus(output.data);
+                finished = true;
+                break;
+            }
+        }
+        subscription.close();
+        if (!finished) {
+            log('Lost the connection before the turn finished');
+        }
+
+        return status;
+    } catch (err) {
+        log(`Error: ${(err as Error).message}`);
+        return EXIT_FAILED;
+    } finally {
+        process.off('SIGINT', onSigint);
+
+        if (client) {
+            if (sessionId && owned && !options.keep) {
+                await client.call('stop-session', { sessionId }).catch(() => {});
+            } else if (sessionId) {
+                log(`Session ${sessionId} is still running. Attach with: p2p-chat <pairing-url> --attach ${sessionId}`);
+            }
+            await client.destroy();
+        }
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * Small syntax highlighter for code blocks in the chat
+ *
+ * A line-based tokenizer with keyword lists for common languages; good enough
+ * to tell keywords, strings, comments and numbers apart in a terminal.
+ */
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'literal';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+}
+
+interface LanguageSpec {
+    keywords: Set<string>;
+    literals: Set<string>;
+    lineComment?: string[];
+    blockComment?: [string, string];
+    quotes: string[];
+}
+
+const JS_KEYWORDS = 'async await break case catch class const continue default delete do else export extends finally for from function if import in instanceof interface let new of return static super switch this throw try type typeof var void while yield enum implements private protected public readonly as keyof declare namespace abstract';
+const PY_KEYWORDS = 'and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case self';
+const SH_KEYWORDS = 'if then else elif fi for while until do done case esac function in return local export echo cd exit set unset source alias sudo';
+const GO_KEYWORDS = 'break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var';
+const RUST_KEYWORDS = 'as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while';
+const C_KEYWORDS = 'auto break case char class const continue default do double else enum extern final float for goto if import int long new package private protected public return short signed sizeof static struct switch this throw throws try typedef union unsigned void volatile while bool namespace template typename using virtual';
+const SQL_KEYWORDS = 'select from where insert into values update set delete create table drop alter add primary key foreign references join left right inner outer on group by order having limit offset as and or not null is in distinct union all index';
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_LIKE = { lineComment: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+    js: { keywords: words(JS_KEYWORDS), literals: words('true false null undefined NaN Infinity'), ...C_LIKE, quotes: ['"', "'", '`'] },
+    python: { keywords: words(PY_KEYWORDS), literals: words('True False None'), lineComment: ['#'], quotes: ['"', "'"] },
+    sh: { keywords: words(SH_KEYWORDS), literals: words('true false'), lineComment: ['#'], quotes: ['"', "'"] },
+    go: { keywords: words(GO_KEYWORDS), literals: words('true false nil iota'), ...C_LIKE, quotes: ['"', '`', "'"] },
+    rust: { keywords: words(RUST_KEYWORDS), literals: words('true false None Some Ok Err'), ...C_LIKE, quotes: ['"'] },
+    c: { keywords: words(C_KEYWORDS), literals: words('true false null nullptr NULL'), ...C_LIKE, quotes: ['"', "'"] },
+    json: { keywords: new Set(), literals: words('true false null'), quotes: ['"'] },
+    sql: { keywords: words(SQL_KEYWORDS), literals: words('null true false'), lineComment: ['--'], quotes: ["'", '"'] },
+    yaml: { keywords: new Set(), literals: words('true false null yes no'), lineComment: ['#'], quotes: ['"', "'"] }
+};
+
+const ALIASES: Record<string, string> = {
+    javascript: 'js', jsx: 'js', ts: 'js', tsx: 'js', typescript: 'js', mjs: 'js', cjs: 'js',
+    py: 'python', python3: 'python',
+    bash: 'sh', shell: 'sh', zsh: 'sh', console: 'sh',
+    golang: 'go',
+    rs: 'rust',
+    cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', java: 'c', kotlin: 'c', cs: 'c', csharp: 'c', swift: 'c',
+    jsonc: 'json',
+    yml: 'yaml',
+    postgres: 'sql', mysql: 'sql', sqlite: 'sql'
+};
+
+function resolveLanguage(language: string): LanguageSpec | undefined {
+    const name = language.toLowerCase();
+    return LANGUAGES[ALIASES[name] ?? name];
+}
+
+/**
+ * Split code into lines of tokens
+ * Unknown languages come back as plain text; block comments and multi-line
+ * template strings carry over between lines
+ */
+export function highlight(code: string, language: string): Token[][] {
+    const spec = resolveLanguage(language);
+    const lines = code.split('\n');
+    if (!spec) {
+        return lines.map(text => [{ kind: 'plain', text }]);
+    }
+
+    const sqlLike = spec === LANGUAGES.sql;
+    let open: { kind: 'comment' | 'string'; end: string } | null = null;
+
+    return lines.map(line => {
+        const tokens: Token[] = [];
+        const push = (kind: TokenKind, text: string) => {
+            const last = tokens[tokens.length - 1];
+            if (last && last.kind === kind) {
+                last.text += text;
+            } else if (text) {
+                tokens.push({ kind, text });
+            }
+        };
+
+        let i = 0;
+        while (i < line.length) {
+            // Continue a comment or string from a previous line
+            if (open) {
+                const end = line.indexOf(open.end, i);
+                const stop = end === -1 ? line.length : end + open.end.length;
+                push(open.kind, line.slice(i, stop));
+                i = stop;
+                if (end !== -1) open = null;
+                continue;
+            }
+
+            const rest = line.slice(i);
+
+            const lineComment = spec.lineComment?.find(marker => rest.startsWith(marker));
+            if (lineComment) {
+                push('comment', rest);
+                break;
+            }
+
+            if (spec.blockComment && rest.startsWith(spec.blockComment[0])) {
+                open = { kind: 'comment', end: spec.blockComment[1] };
+                push('comment', spec.blockComment[0]);
+                i += spec.blockComment[0].length;
+                continue;
+            }
+
+            const quote = spec.quotes.find(q => rest.startsWith(q));
+            if (quote) {
+                let j = i + 1;
+                while (j < line.length && line[j] !== quote) {
+                    j += line[j] === '\\' ? 2 : 1;
+                }
+                if (j >= line.length && quote === '`') {
+                    open = { kind: 'string', end: '`' };
+                }
+                push('string', line.slice(i, Math.min(j + 1, line.length)));
+                i = j + 1;
+                continue;
+            }
+
+            const number = /^(0x[0-9a-fA-F]+|\d+(\.\d+)?([eE][+-]?\d+)?)/.exec(rest);
+            if (number && !/[\w$]/.test(line[i - 1] ?? '')) {
+                push('number', number[0]);
+                i += number[0].length;
+                continue;
+            }
+
+            const word = /^[A-Za-z_$][\w$]*/.exec(rest);
+            if (word) {
+                const text = word[0];
+                const key = sqlLike ? text.toLowerCase() : text;
+                push(spec.keywords.has(key) ? 'keyword' : spec.literals.has(key) ? 'literal' : 'plain', text);
+                i += text.length;
+                continue;
+            }
+
+            push('plain', line[i]);
+            i++;
+        }
+
+        return tokens;
+    });
+}
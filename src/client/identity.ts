@@ -0,0 +1,117 @@
+/**
+ * Client device identity - a HyperDHT keypair the daemon authorizes at pairing,
+ * plus data keys received from daemons paired with an invite
+ */
+
+import DHT from 'hyperdht';
+import { randomBytes } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+
+function resolveDataDir(dataDir?: string): string {
+    return dataDir || process.env.P2P_CLAUDE_DATA_DIR || join(homedir(), '.p2p-claude');
+}
+
+export interface Identity {
+    publicKey: Buffer;
+    secretKey: Buffer;
+}
+
+/**
+ * Load this device's keypair or create one
+ */
+export function loadOrCreateIdentity(dataDir?: string): Identity {
+    const dir = resolveDataDir(dataDir);
+    const keyPairPath = join(dir, 'client-keypair.json');
+
+    if (existsSync(keyPairPath)) {
+        try {
+            const data = JSON.parse(readFileSync(keyPairPath, 'utf-8'));
+            return {
+                publicKey: Buffer.from(data.publicKey, 'base64'),
+                secretKey: Buffer.from(data.secretKey, 'base64')
+            };
+        } catch {
+            // Fall through to create new
+        }
+    }
+
+    const keyPair = DHT.keyPair(randomBytes(32));
+
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+
+    writeFileSync(keyPairPath, JSON.stringify({
+        publicKey: keyPair.publicKey.toString('base64'),
+        secretKey: keyPair.secretKey.toString('base64')
+    }, null, 2), { mode: 0o600 });
+
+    return keyPair;
+}
+
+/**
+ * Key material saved for a daemon, updated when the daemon rotates its keys
+ */
+export interface SavedDaemonKey {
+    dataKey: string;
+    keyId: number;
+    dhtPublicKey: string; // Where the daemon listens now (changes on rotation)
+}
+
+interface PairedDaemon extends SavedDaemonKey {
+    pairedAt: number;
+}
+
+/**
+ * Data keys received when pairing with an invite or from a rekey, keyed by
+ * the DHT public key in the original pairing URL
+ */
+function pairedDaemonsPath(dataDir?: string): string {
+    return join(resolveDataDir(dataDir), 'paired-daemons.json');
+}
+
+function loadPairedDaemons(dataDir?: string): Record<string, Partial<PairedDaemon>> {
+    const path = pairedDaemonsPath(dataDir);
+    if (!existsSync(path)) {
+        return {};
+    }
+
+    try {
+        return JSON.parse(readFileSync(path, 'utf-8')).daemons || {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Get the key saved for a daemon, if this device paired with it before
+ */
+export function loadDataKey(dhtPublicKey: string, dataDir?: string): SavedDaemonKey | undefined {
+    const saved = loadPairedDaemons(dataDir)[dhtPublicKey];
+    if (!saved?.dataKey) {
+        return undefined;
+    }
+
+    return {
+        dataKey: saved.dataKey,
+        keyId: saved.keyId ?? 0,
+        dhtPublicKey: saved.dhtPublicKey ?? dhtPublicKey
+    };
+}
+
+/**
+ * Save the key a daemon returned when pairing with an invite or sent in a rekey
+ */
+export function saveDataKey(dhtPublicKey: string, key: SavedDaemonKey, dataDir?: string): void {
+    const daemons = loadPairedDaemons(dataDir);
+    daemons[dhtPublicKey] = { ...key, pairedAt: daemons[dhtPublicKey]?.pairedAt ?? Date.now() };
+
+    const path = pairedDaemonsPath(dataDir);
+    const dir = resolveDataDir(dataDir);
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(path, JSON.stringify({ daemons }, null, 2), { mode: 0o600 });
+}
@@ -5,13 +5,29 @@
  * Usage:
  *   p2p-chat <pairing-url> [options]
  *   p2p-chat "p2p-claude://connect?code=..." -c ~/projects/myapp
+ *   p2p-chat "p2p-claude://connect?code=..." --attach <sessionId>
+ *   p2p-chat exec "p2p-claude://connect?code=..." -c ~/projects/myapp --prompt "..."
  */
 
 import { resolve } from 'node:path';
+import { hostname } from 'node:os';
+import { runExec, EXIT_USAGE, type ExecOutput } from './exec.js';
+import { PERMISSION_MODES } from '../rpc-schemas.js';
+import type { PermissionMode } from '../types.js';
 
-function parseArgs(args: string[]): { pairingUrl: string | null; directory: string; help: boolean } {
+interface ParsedArgs {
+    pairingUrl: string | null;
+    directory: string;
+    attach?: string | true; // Session id, or true to pick from a list
+    name?: string; // Device name shown in `p2p-claude clients list`
+    help: boolean;
+}
+
+function parseArgs(args: string[]): ParsedArgs {
     let pairingUrl: string | null = null;
     let directory = process.cwd();
+    let attach: string | true | undefined;
+    let name: string | undefined;
     let help = false;
 
     for (let i = 0; i < args.length; i++) {
@@ -22,6 +38,23 @@ function parseArgs(args: string[]): { pairingUrl: string | null; directory: stri
                 console.error('Missing directory path after ' + arg);
                 process.exit(1);
             }
+        } else if (arg === '-a' || arg === '--attach') {
+            // Session id is optional; without one a picker is shown
+            const next = args[i + 1];
+            if (next && !next.startsWith('-') && !next.includes('://')) {
+                attach = next;
+                i++;
+            } else {
+                attach = true;
+            }
+        } else if (arg.startsWith('--attach=')) {
+            attach = arg.split('=')[1] || true;
+        } else if (arg === '-n' || arg === '--name') {
+            name = args[++i] || '';
+            if (!name) {
+                console.error('Missing device name after ' + arg);
+                process.exit(1);
+            }
         } else if (arg === '-h' || arg === '--help') {
             help = true;
         } else if (!arg.startsWith('-')) {
@@ -29,7 +62,158 @@ function parseArgs(args: string[]): { pairingUrl: string | null; directory: stri
         }
     }
 
-    return { pairingUrl, directory: resolve(directory), help };
+    return { pairingUrl, directory: resolve(directory), attach, name, help };
+}
+
+interface ParsedExecArgs {
+    pairingUrl: string | null;
+    directory: string;
+    prompt?: string; // '-' or omitted: read from stdin
+    attach?: string;
+    keep: boolean;
+    output: ExecOutput;
+    permissionMode?: PermissionMode;
+    model?: string;
+    name?: string;
+    help: boolean;
+}
+
+/**
+ * Parse `p2p-chat exec` arguments; exits with EXIT_USAGE on bad ones
+ */
+function parseExecArgs(args: string[]): ParsedExecArgs {
+    const parsed: ParsedExecArgs = { pairingUrl: null, directory: process.cwd(), keep: false, output: 'text', help: false };
+
+    const value = (arg: string, index: number): string => {
+        const next = args[index];
+        if (next === undefined || (next.startsWith('-') && next !== '-')) {
+            console.error(`Missing value after ${arg}`);
+            process.exit(EXIT_USAGE);
+        }
+        return next;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '-c' || arg === '-C' || arg === '--directory' || arg === '-d') {
+            parsed.directory = value(arg, ++i);
+        } else if (arg === '-p' || arg === '--prompt') {
+            parsed.prompt = value(arg, ++i);
+        } else if (arg === '-a' || arg === '--attach') {
+            parsed.attach = value(arg, ++i);
+        } else if (arg === '-k' || arg === '--keep') {
+            parsed.keep = true;
+        } else if (arg === '-o' || arg === '--output') {
+            const output = value(arg, ++i);
+            if (output !== 'text' && output !== 'ndjson') {
+                console.error(`Invalid output format: ${output} (expected text or ndjson)`);
+                process.exit(EXIT_USAGE);
+            }
+            parsed.output = output;
+        } else if (arg === '--json') {
+            parsed.output = 'ndjson';
+        } else if (arg === '--permission-mode') {
+            const mode = value(arg, ++i) as PermissionMode;
+            if (!PERMISSION_MODES.includes(mode)) {
+                console.error(`Invalid permission mode: ${mode} (expected ${PERMISSION_MODES.join(', ')})`);
+                process.exit(EXIT_USAGE);
+            }
+            parsed.permissionMode = mode;
+        } else if (arg === '-m' || arg === '--model') {
+            parsed.model = value(arg, ++i);
+        } else if (arg === '-n' || arg === '--name') {
+            parsed.name = value(arg, ++i);
+        } else if (arg === '-h' || arg === '--help') {
+            parsed.help = true;
+        } else if (!arg.startsWith('-')) {
+            parsed.pairingUrl = arg;
+        } else {
+            console.error(`Unknown option: ${arg}`);
+            process.exit(EXIT_USAGE);
+        }
+    }
+
+    parsed.directory = resolve(parsed.directory);
+    return parsed;
+}
+
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+}
+
+function showExecHelp(): void {
+    console.log(`
+Run one prompt on a remote Claude session, without the chat UI
+
+Usage:
+  p2p-chat exec <pairing-url> [options]
+
+Options:
+  -p, --prompt <text>         Prompt to send ('-' or omitted: read it from stdin)
+  -c, -C, --directory <path>  Working directory for the new session
+  -a, --attach <sessionId>    Send the prompt to an existing session instead
+  -k, --keep                  Leave the new session running afterwards
+  -o, --output <text|ndjson>  Claude's replies as text (default), or every
+                              session output as newline-delimited JSON
+      --json                  Same as --output ndjson
+      --permission-mode <m>   default, acceptEdits, bypassPermissions or plan
+  -m, --model <name>          Model for the new session
+  -n, --name <name>           Device name used when pairing (default: hostname)
+  -h, --help                  Show this help message
+
+Exit status:
+  0    The turn finished successfully
+  1    Claude ended the turn with an error (e.g. it ran out of turns)
+  2    Bad arguments
+  3    Connecting, spawning or sending failed, or the session ended first
+  130  Interrupted with Ctrl+C
+
+Tool calls and errors go to stderr. Tools that need approval are denied, since
+nobody can answer the prompt; pick a permission mode that fits the job.
+
+Examples:
+  p2p-chat exec "p2p-claude://connect?code=..." -c ~/ci/repo -p "Why did the nightly build fail?"
+  tail -n 200 build.log | p2p-chat exec "p2p-claude://connect?code=..." -c ~/ci/repo --json
+`);
+}
+
+async function runExecCommand(args: string[]): Promise<void> {
+    const parsed = parseExecArgs(args);
+
+    if (parsed.help || !parsed.pairingUrl) {
+        showExecHelp();
+        process.exit(parsed.help ? 0 : EXIT_USAGE);
+    }
+
+    let prompt = parsed.prompt;
+    if (prompt === undefined || prompt === '-') {
+        if (process.stdin.isTTY) {
+            console.error('No prompt: pass --prompt or pipe one to stdin');
+            process.exit(EXIT_USAGE);
+        }
+        prompt = await readStdin();
+    }
+    if (!prompt.trim()) {
+        console.error('The prompt is empty');
+        process.exit(EXIT_USAGE);
+    }
+
+    const status = await runExec({
+        pairingUrl: parsed.pairingUrl,
+        directory: parsed.directory,
+        prompt,
+        deviceName: parsed.name || hostname(),
+        output: parsed.output,
+        attach: parsed.attach,
+        keep: parsed.keep,
+        permissionMode: parsed.permissionMode,
+        model: parsed.model
+    });
+    process.exit(status);
 }
 
 function showHelp(): void {
@@ -38,20 +222,35 @@ P2P Claude Chat Client
 
 Usage:
   p2p-chat <pairing-url> [options]
+  p2p-chat exec <pairing-url> [options]   Run one prompt without the UI (see exec --help)
 
 Options:
   -c, -C, --directory <path>  Working directory for Claude session
+  -a, --attach [sessionId]    Attach to a running session instead of spawning one
+                              (without an id, pick from the daemon's sessions)
+  -n, --name <name>           Device name used when pairing (default: hostname)
   -h, --help                  Show this help message
 
-Example:
+Examples:
   p2p-chat "p2p-claude://connect?code=..." -c ~/projects/myapp
+  p2p-chat "p2p-claude://connect?code=..." --attach 3f2a9c1e-...
 
-The pairing URL is displayed when the daemon starts.
+In the chat, /help lists commands and /detach exits without stopping
+the session.
+
+Get a pairing URL by running \`p2p-claude pair\` on the daemon machine.
+The device saves the key it receives, so the URL keeps working on it
+after the invite is used up.
 `);
 }
 
 async function main(): Promise<void> {
     const args = process.argv.slice(2);
+    if (args[0] === 'exec') {
+        await runExecCommand(args.slice(1));
+        return;
+    }
+
     const parsed = parseArgs(args);
 
     if (parsed.help || !parsed.pairingUrl) {
@@ -61,7 +260,7 @@ async function main(): Promise<void> {
 
     // Dynamic import to avoid loading React until needed
     const { runChat } = await import('./chat.js');
-    await runChat(parsed.pairingUrl, parsed.directory);
+    await runChat(parsed.pairingUrl, parsed.directory, parsed.attach, parsed.name);
 }
 
 main().catch((err) => {
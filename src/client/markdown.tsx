@@ -0,0 +1,324 @@
+/**
+ * Ink markdown renderer for Claude's replies
+ *
+ * Handles what Claude commonly writes: headings, paragraphs, lists (with
+ * nesting and task boxes), block quotes, tables, rules, fenced code with
+ * syntax highlighting, and inline bold, italic, strikethrough, code and links.
+ * Text wraps to the terminal width.
+ */
+
+import React, { useMemo } from 'react';
+import { Box, Text } from 'ink';
+import { highlight, type TokenKind } from './highlight.js';
+import { Highlight } from './scroll-view.js';
+
+type Block =
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'paragraph'; text: string }
+    | { type: 'code'; language: string; code: string }
+    | { type: 'list'; items: ListItem[] }
+    | { type: 'quote'; text: string }
+    | { type: 'table'; header: string[]; rows: string[][] }
+    | { type: 'rule' };
+
+interface ListItem {
+    depth: number;
+    marker: string; // Bullet, number or task box as displayed
+    text: string;
+}
+
+interface Span {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    url?: string;
+}
+
+const TOKEN_COLORS: Record<TokenKind, string | undefined> = {
+    plain: undefined,
+    keyword: 'magenta',
+    string: 'green',
+    comment: 'gray',
+    number: 'yellow',
+    literal: 'yellow'
+};
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#.-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+/**
+ * Split markdown into blocks
+ */
+function parseBlocks(markdown: string): Block[] {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const blocks: Block[] = [];
+    let i = 0;
+
+    const isBlockStart = (line: string) =>
+        FENCE.test(line) || HEADING.test(line) || LIST_ITEM.test(line) || RULE.test(line) || /^\s*>/.test(line);
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                code.push(lines[i]);
+                i++;
+            }
+            i++; // Closing fence
+            blocks.push({ type: 'code', language: fence[2], code: code.join('\n') });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            blocks.push({ type: 'rule' });
+            i++;
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+            const header = splitRow(line);
+            const rows: string[][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+                rows.push(splitRow(lines[i]));
+                i++;
+            }
+            blocks.push({ type: 'table', header, rows });
+            continue;
+        }
+
+        if (/^\s*>/.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && /^\s*>/.test(lines[i])) {
+                quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+                i++;
+            }
+            blocks.push({ type: 'quote', text: quoted.join('\n') });
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const items: ListItem[] = [];
+            const baseIndent = LIST_ITEM.exec(line)![1].length;
+            while (i < lines.length) {
+                const item = LIST_ITEM.exec(lines[i]);
+                if (item) {
+                    items.push(listItem(item, baseIndent));
+                } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+                    // Continuation of the previous item
+                    items[items.length - 1].text += `\n${lines[i].trim()}`;
+                } else {
+                    break;
+                }
+                i++;
+            }
+            blocks.push({ type: 'list', items });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+            paragraph.push(lines[i]);
+            i++;
+        }
+        blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    }
+
+    return blocks;
+}
+
+function listItem(match: RegExpExecArray, baseIndent: number): ListItem {
+    const depth = Math.max(0, Math.floor((match[1].length - baseIndent) / 2));
+    const task = /^\[([ xX])\]\s+(.*)$/.exec(match[3]);
+    if (task) {
+        return { depth, marker: task[1] === ' ' ? '[ ]' : '[x]', text: task[2] };
+    }
+    return { depth, marker: /\d/.test(match[2]) ? match[2] : '•', text: match[3] };
+}
+
+function splitRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+// Inline markup, in order of precedence
+const INLINE_PATTERNS: Array<{ pattern: RegExp; style: (match: RegExpExecArray) => Partial<Span> & { inner?: string } }> = [
+    { pattern: /`([^`]+)`/, style: m => ({ code: true, text: m[1] }) },
+    { pattern: /\[([^\]]+)\]\(([^)\s]+)\)/, style: m => ({ inner: m[1], url: m[2] }) },
+    { pattern: /\*\*(.+?)\*\*|__(.+?)__/, style: m => ({ inner: m[1] ?? m[2], bold: true }) },
+    { pattern: /~~(.+?)~~/, style: m => ({ inner: m[1], strike: true }) },
+    { pattern: /\*(?!\s)(.+?)\*|\b_(?!\s)(.+?)_\b/, style: m => ({ inner: m[1] ?? m[2], italic: true }) }
+];
+
+/**
+ * Split text into styled spans
+ */
+function parseInline(text: string, inherited: Partial<Span> = {}): Span[] {
+    let earliest: { index: number; match: RegExpExecArray; style: Partial<Span> & { inner?: string } } | null = null;
+    for (const { pattern, style } of INLINE_PATTERNS) {
+        const match = pattern.exec(text);
+        if (match && (!earliest || match.index < earliest.index)) {
+            earliest = { index: match.index, match, style: style(match) };
+        }
+    }
+
+    if (!earliest) {
+        return text ? [{ ...inherited, text }] : [];
+    }
+
+    const { index, match, style } = earliest;
+    const { inner, ...spanStyle } = style;
+    const before = text.slice(0, index);
+    const after = text.slice(index + match[0].length);
+    const middle = inner !== undefined
+        ? parseInline(inner, { ...inherited, ...spanStyle })
+        : [{ ...inherited, ...spanStyle, text: spanStyle.text ?? '' }];
+
+    return [
+        ...(before ? [{ ...inherited, text: before }] : []),
+        ...middle,
+        ...parseInline(after, inherited)
+    ];
+}
+
+function plainText(text: string): string {
+    return parseInline(text).map(span => span.text).join('');
+}
+
+interface InlineTextProps {
+    text: string;
+    query?: string; // Search matches to highlight
+    bold?: boolean;
+    color?: string;
+    dimColor?: boolean;
+    italic?: boolean;
+}
+
+function InlineText({ text, query, bold, color, dimColor, italic }: InlineTextProps) {
+    const spans = parseInline(text);
+    return (
+        <Text bold={bold} color={color} dimColor={dimColor} italic={italic}>
+            {spans.map((span, i) => (
+                <Text
+                    key={i}
+                    bold={span.bold || undefined}
+                    italic={span.italic || undefined}
+                    strikethrough={span.strike || undefined}
+                    underline={span.url ? true : undefined}
+                    color={span.code ? 'cyan' : span.url ? 'blue' : undefined}
+                >
+                    <Highlight text={span.text} query={query} />
+                    {span.url && span.url !== span.text && <Text color="gray" underline={false}> ({span.url})</Text>}
+                </Text>
+            ))}
+        </Text>
+    );
+}
+
+function CodeBlock({ language, code, query }: { language: string; code: string; query?: string }) {
+    const lines = highlight(code, language);
+
+    return (
+        <Box flexDirection="column" borderStyle="round" borderColor="gray" paddingX={1}>
+            {language && <Text color="gray" dimColor>{language}</Text>}
+            {lines.map((tokens, i) => (
+                <Text key={i}>
+                    {tokens.length === 0 ? ' ' : tokens.map((token, j) => (
+                        <Text key={j} color={TOKEN_COLORS[token.kind]} dimColor={token.kind === 'comment' || undefined}>
+                            <Highlight text={token.text} query={query} />
+                        </Text>
+                    ))}
+                </Text>
+            ))}
+        </Box>
+    );
+}
+
+function Table({ header, rows, query }: { header: string[]; rows: string[][]; query?: string }) {
+    const columns = header.length;
+    const cells = [header, ...rows].map(row => Array.from({ length: columns }, (_, c) => plainText(row[c] ?? '')));
+    const widths = Array.from({ length: columns }, (_, c) => Math.max(...cells.map(row => row[c].length)));
+    const format = (row: string[]) => row.map((cell, c) => cell.padEnd(widths[c])).join(' │ ');
+
+    return (
+        <Box flexDirection="column">
+            <Text bold><Highlight text={format(cells[0])} query={query} /></Text>
+            <Text color="gray">{widths.map(width => '─'.repeat(width)).join('─┼─')}</Text>
+            {cells.slice(1).map((row, i) => <Text key={i}><Highlight text={format(row)} query={query} /></Text>)}
+        </Box>
+    );
+}
+
+function BlockView({ block, query }: { block: Block; query?: string }) {
+    switch (block.type) {
+        case 'heading':
+            return <InlineText text={block.text} query={query} bold color={block.level <= 2 ? 'cyan' : undefined} />;
+
+        case 'paragraph':
+            return <InlineText text={block.text} query={query} />;
+
+        case 'code':
+            return <CodeBlock language={block.language} code={block.code} query={query} />;
+
+        case 'list':
+            return (
+                <Box flexDirection="column">
+                    {block.items.map((item, i) => (
+                        <Box key={i} marginLeft={item.depth * 2}>
+                            <Text color="gray">{item.marker} </Text>
+                            <Box flexShrink={1}>
+                                <InlineText text={item.text} query={query} />
+                            </Box>
+                        </Box>
+                    ))}
+                </Box>
+            );
+
+        case 'quote':
+            return (
+                <Box borderStyle="single" borderTop={false} borderRight={false} borderBottom={false} borderColor="gray" paddingLeft={1}>
+                    <InlineText text={block.text} query={query} italic dimColor />
+                </Box>
+            );
+
+        case 'table':
+            return <Table header={block.header} rows={block.rows} query={query} />;
+
+        case 'rule':
+            return <Text color="gray">{'─'.repeat(40)}</Text>;
+    }
+}
+
+export function Markdown({ text, query }: { text: string; query?: string }) {
+    const blocks = useMemo(() => parseBlocks(text), [text]);
+
+    return (
+        <Box flexDirection="column">
+            {blocks.map((block, i) => (
+                <Box key={i} marginTop={i > 0 ? 1 : 0}>
+                    <BlockView block={block} query={query} />
+                </Box>
+            ))}
+        </Box>
+    );
+}
@@ -0,0 +1,43 @@
+/**
+ * Ink modal for answering a tool permission request
+ */
+
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import { ToolInputView } from './tool-view.js';
+import type { PermissionDecision, PermissionRequest } from '../types.js';
+
+interface PermissionPromptProps {
+    request: PermissionRequest;
+    queued: number; // Further requests waiting behind this one
+    onAnswer: (decision: PermissionDecision) => void;
+}
+
+export function PermissionPrompt({ request, queued, onAnswer }: PermissionPromptProps) {
+    useInput((input) => {
+        switch (input.toLowerCase()) {
+            case 'y':
+                onAnswer('allow-once');
+                break;
+            case 'a':
+                onAnswer('allow-always');
+                break;
+            case 'n':
+                onAnswer('deny');
+                break;
+        }
+    });
+
+    return (
+        <Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingX={1}>
+            <Text color="yellow" bold>Permission requested: {request.toolName}</Text>
+            <ToolInputView name={request.toolName} input={request.input} />
+            <Box marginTop={1}>
+                <Text>
+                    <Text color="green" bold>y</Text> allow once • <Text color="green" bold>a</Text> always allow {request.toolName} • <Text color="red" bold>n</Text> deny
+                </Text>
+            </Box>
+            {queued > 0 && <Text color="gray" dimColor>{queued} more request(s) waiting</Text>}
+        </Box>
+    );
+}
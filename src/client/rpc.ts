@@ -3,79 +3,205 @@
  */
 
 import { randomUUID } from 'node:crypto';
-import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
 import DHT from 'hyperdht';
+import type {
+    SessionOutput,
+    SessionOutputEvent,
+    GetOutputResult,
+    OutputGap,
+    PairResult,
+    RekeyEvent,
+    RpcRequest,
+    RpcErrorInfo,
+    HandshakeRequest,
+    HandshakeResponse,
+    HandshakeHello,
+    SealedRequest,
+    SealedResponse,
+    SealedEvent
+} from '../types.js';
+import { validateParams, validateResult, type RpcMethod, type RpcParams, type RpcResult } from '../rpc-methods.js';
+import { RpcError } from '../errors.js';
+import { Encryption, createEphemeralKey, deriveSessionKeys } from '../encryption.js';
+import { ValidationError } from '../schema.js';
+import type { Identity } from './identity.js';
 
 /**
- * AES-256-GCM encryption
+ * An error sent by the daemon; schema errors come back as ValidationErrors
  */
-export class Encryption {
-    private key: Buffer;
+function remoteError(info: RpcErrorInfo | string | undefined): RpcError {
+    const error = RpcError.fromInfo(info);
+    const field = (error.data as { field?: unknown } | undefined)?.field;
+    return error.code === 'INVALID_PARAMS' && typeof field === 'string'
+        ? new ValidationError(error.code, field, error.message)
+        : error;
+}
+
+// Daemon frames whose timestamp is further than this from our clock are dropped
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+interface PendingRequest {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    timeoutId: NodeJS.Timeout;
+}
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected';
+export type ConnectionListener = (state: ConnectionState) => void;
+export type EventListener<T = unknown> = (data: T) => void;
 
-    constructor(keyBase64: string) {
-        this.key = Buffer.from(keyBase64, 'base64');
+export interface SubscribeOptions {
+    sinceSeq?: number; // Replay buffered outputs after this seq (default 0 = everything)
+    onGap?: (gap: OutputGap) => void; // Called when outputs were evicted before they could be replayed
+}
+
+/**
+ * Live stream of a session's output, pushed by the daemon
+ * Outputs are delivered in seq order without duplicates, including across
+ * reconnects. Iterate with `for await`; call close() to unsubscribe
+ */
+export class SessionSubscription implements AsyncIterableIterator<SessionOutput> {
+    private queue: SessionOutput[] = [];
+    private waiting: Array<(result: IteratorResult<SessionOutput>) => void> = [];
+    private held: SessionOutput[] | null = null;
+    private closed = false;
+    private lastSeq: number;
+
+    constructor(
+        readonly sessionId: string,
+        private options: SubscribeOptions,
+        private onClose: () => void
+    ) {
+        this.lastSeq = options.sinceSeq ?? 0;
+    }
+
+    /**
+     * Seq of the last output delivered (cursor for get-output)
+     */
+    getLastSeq(): number {
+        return this.lastSeq;
+    }
+
+    /**
+     * Buffer pushed outputs while replaying the backlog
+     */
+    hold(): void {
+        this.held = this.held ?? [];
     }
 
-    encrypt(data: unknown): string {
-        const nonce = randomBytes(12);
-        const cipher = createCipheriv('aes-256-gcm', this.key, nonce);
-        const plaintext = Buffer.from(JSON.stringify(data), 'utf-8');
-        const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
-        const authTag = cipher.getAuthTag();
+    /**
+     * Stop holding without delivering what was held; the next replay from
+     * the cursor covers it
+     */
+    release(): void {
+        this.held = null;
+    }
 
-        const bundle = Buffer.alloc(1 + 12 + encrypted.length + 16);
-        bundle.writeUInt8(0, 0);
-        nonce.copy(bundle, 1);
-        encrypted.copy(bundle, 13);
-        authTag.copy(bundle, 13 + encrypted.length);
+    /**
+     * Deliver the replayed backlog followed by anything pushed meanwhile
+     */
+    resume(backlog: GetOutputResult): void {
+        const held = this.held || [];
+        this.held = null;
 
-        return bundle.toString('base64');
+        if (backlog.gap) {
+            this.options.onGap?.(backlog.gap);
+        }
+        for (const output of [...backlog.messages, ...held]) {
+            this.push(output);
+        }
     }
 
-    decrypt<T = unknown>(encryptedBase64: string): T {
-        const bundle = Buffer.from(encryptedBase64, 'base64');
-        if (bundle.length < 29) throw new Error('Bundle too short');
-        if (bundle.readUInt8(0) !== 0) throw new Error('Unknown version');
+    /**
+     * Deliver an output pushed by the daemon
+     */
+    push(output: SessionOutput): void {
+        if (this.closed) return;
 
-        const nonce = bundle.subarray(1, 13);
-        const authTag = bundle.subarray(bundle.length - 16);
-        const ciphertext = bundle.subarray(13, bundle.length - 16);
+        if (this.held) {
+            this.held.push(output);
+            return;
+        }
 
-        const decipher = createDecipheriv('aes-256-gcm', this.key, nonce);
-        decipher.setAuthTag(authTag);
-        const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+        // Already seen (replayed backlog overlapping live pushes)
+        if (output.seq <= this.lastSeq) return;
+        this.lastSeq = output.seq;
 
-        return JSON.parse(decrypted.toString('utf-8')) as T;
+        const resolve = this.waiting.shift();
+        if (resolve) {
+            resolve({ value: output, done: false });
+        } else {
+            this.queue.push(output);
+        }
     }
-}
 
-interface PendingRequest {
-    resolve: (value: unknown) => void;
-    reject: (error: Error) => void;
-    timeoutId: NodeJS.Timeout;
-}
+    next(): Promise<IteratorResult<SessionOutput>> {
+        const queued = this.queue.shift();
+        if (queued) {
+            return Promise.resolve({ value: queued, done: false });
+        }
+        if (this.closed) {
+            return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
 
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected';
-export type ConnectionListener = (state: ConnectionState) => void;
+    async return(): Promise<IteratorResult<SessionOutput>> {
+        this.close();
+        return { value: undefined, done: true };
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<SessionOutput> {
+        return this;
+    }
+
+    /**
+     * Stop receiving output and end any pending iteration
+     */
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.queue = [];
+        this.held = null;
+
+        for (const resolve of this.waiting) {
+            resolve({ value: undefined, done: true });
+        }
+        this.waiting = [];
+
+        this.onClose();
+    }
+}
 
 export class RpcClient {
     private dhtPublicKey: Buffer;
-    private encryption: Encryption;
+    private encryption: Encryption; // Long-term data key, authenticates the handshake
+    private invite: PairingInvite | null = null; // Handshake with this invite instead while pairing
+    private session: { send: Encryption; receive: Encryption } | null = null; // Per-connection keys
+    private pendingHandshake: ((response: HandshakeResponse) => void) | null = null;
+    private handshakePromise: Promise<void> | null = null;
     private dht: InstanceType<typeof DHT>;
+    private identity?: Identity;
     private socket: ReturnType<InstanceType<typeof DHT>['connect']> | null = null;
     private connected = false;
     private pendingRequests = new Map<string, PendingRequest>();
     private buffer = '';
+    private sendCounter = 0; // Per connection, bound into each request
+    private receiveCounter = 0; // Highest counter accepted from the daemon on this connection
     private connectPromise: Promise<void> | null = null;
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 10;
     private reconnectTimer: NodeJS.Timeout | null = null;
     private isDestroyed = false;
     private connectionListeners: ConnectionListener[] = [];
+    private eventListeners = new Map<string, EventListener[]>();
+    private subscriptions = new Map<string, SessionSubscription>();
 
-    constructor(dhtPublicKey: string, encryption: Encryption) {
+    constructor(dhtPublicKey: string, encryption: Encryption, identity?: Identity) {
         this.dhtPublicKey = Buffer.from(dhtPublicKey, 'base64');
         this.encryption = encryption;
+        this.identity = identity;
         this.dht = new DHT();
     }
 
@@ -99,6 +225,41 @@ export class RpcClient {
         }
     }
 
+    /**
+     * Add a listener for events pushed by the daemon
+     */
+    onEvent<T = unknown>(event: string, listener: EventListener<T>): () => void {
+        const listeners = this.eventListeners.get(event) || [];
+        listeners.push(listener as EventListener);
+        this.eventListeners.set(event, listeners);
+        return () => {
+            const current = this.eventListeners.get(event) || [];
+            this.eventListeners.set(event, current.filter(l => l !== listener));
+        };
+    }
+
+    private emitEvent(event: string, data: unknown): void {
+        if (event === 'rekey') {
+            // Switch to the rotated key; reconnects go to the new DHT keypair
+            const { keyId, dataKey, dhtPublicKey } = data as RekeyEvent;
+            this.encryption.setCurrentKey(keyId, dataKey);
+            this.dhtPublicKey = Buffer.from(dhtPublicKey, 'base64');
+        }
+
+        if (event === 'session-output') {
+            const { sessionId, output } = data as SessionOutputEvent;
+            this.subscriptions.get(sessionId)?.push(output);
+        }
+
+        for (const listener of this.eventListeners.get(event) || []) {
+            try {
+                listener(data);
+            } catch {
+                // Ignore listener errors
+            }
+        }
+    }
+
     /**
      * Get current connection state
      */
@@ -110,7 +271,7 @@ export class RpcClient {
 
     async ensureConnected(): Promise<void> {
         if (this.isDestroyed) {
-            throw new Error('Client has been destroyed');
+            throw new RpcError('TRANSPORT', 'Client has been destroyed', { retryable: false });
         }
 
         if (this.connected && this.socket && !this.socket.destroyed) {
@@ -124,14 +285,27 @@ export class RpcClient {
         this.notifyConnectionChange('connecting');
 
         this.connectPromise = new Promise((resolve, reject) => {
-            this.socket = this.dht.connect(this.dhtPublicKey);
+            this.socket = this.dht.connect(this.dhtPublicKey, this.identity ? { keyPair: this.identity } : undefined);
+            this.session = null;
 
+            // Usable once the key exchange completes
+            let opened = false;
             const onConnect = () => {
-                this.connected = true;
-                this.connectPromise = null;
-                this.reconnectAttempts = 0; // Reset on successful connection
-                this.notifyConnectionChange('connected');
-                resolve();
+                if (opened) return;
+                opened = true;
+
+                this.handshake().then(() => {
+                    this.connected = true;
+                    this.connectPromise = null;
+                    this.reconnectAttempts = 0; // Reset on successful connection
+                    this.notifyConnectionChange('connected');
+                    resolve();
+                    this.resubscribe();
+                }, (err: Error) => {
+                    this.connectPromise = null;
+                    reject(err);
+                    this.socket?.destroy();
+                });
             };
 
             this.socket.once('open', onConnect);
@@ -140,7 +314,7 @@ export class RpcClient {
             this.socket.on('error', (err: Error) => {
                 if (!this.connected) {
                     this.connectPromise = null;
-                    reject(err);
+                    reject(new RpcError('TRANSPORT', err.message));
                 }
                 this.connected = false;
                 this.notifyConnectionChange('disconnected');
@@ -154,7 +328,7 @@ export class RpcClient {
 
                 // Reject pending requests
                 for (const [, { reject }] of this.pendingRequests) {
-                    reject(new Error('Connection closed'));
+                    reject(new RpcError('TRANSPORT', 'Connection closed'));
                 }
                 this.pendingRequests.clear();
 
@@ -172,7 +346,7 @@ export class RpcClient {
             setTimeout(() => {
                 if (!this.connected) {
                     this.connectPromise = null;
-                    reject(new Error('Connection timeout'));
+                    reject(new RpcError('TIMEOUT', 'Connection timeout'));
                 }
             }, 10000);
         });
@@ -190,6 +364,10 @@ export class RpcClient {
 
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
             console.error(`[RPC] Max reconnect attempts (${this.maxReconnectAttempts}) reached`);
+            // Nothing more will arrive, so end the subscriptions' iteration
+            for (const subscription of this.subscriptions.values()) {
+                subscription.close();
+            }
             return;
         }
 
@@ -215,6 +393,76 @@ export class RpcClient {
         }, delay);
     }
 
+    /**
+     * Exchange ephemeral X25519 keys with the daemon and derive this
+     * connection's keys. The hello is encrypted with the long-term data key
+     * (or the invite secret while pairing), which authenticates both sides
+     */
+    private handshake(): Promise<void> {
+        const staticKey = this.invite ? new Encryption(this.invite.secret) : this.encryption;
+        const ephemeral = createEphemeralKey();
+        const hello: HandshakeHello = { publicKey: ephemeral.publicKey, ts: Date.now() };
+        const request: HandshakeRequest = { handshake: staticKey.encrypt(hello), invite: this.invite?.id };
+
+        return new Promise((resolve, reject) => {
+            const timeoutId = setTimeout(() => {
+                this.pendingHandshake = null;
+                reject(new RpcError('TIMEOUT', 'Handshake timed out'));
+            }, 10000);
+
+            this.pendingHandshake = (response) => {
+                clearTimeout(timeoutId);
+                this.pendingHandshake = null;
+                try {
+                    if (!response.handshake) {
+                        // Wrong key, or an invalid invite
+                        throw new RpcError('UNAUTHORIZED', response.error || 'Handshake failed');
+                    }
+
+                    const reply = staticKey.decrypt<HandshakeHello>(response.handshake);
+                    if (reply.peerPublicKey !== hello.publicKey || Math.abs(Date.now() - reply.ts) > MAX_CLOCK_SKEW_MS) {
+                        throw new RpcError('UNAUTHORIZED', 'Invalid handshake reply');
+                    }
+
+                    const keys = deriveSessionKeys(
+                        ephemeral.privateKey,
+                        reply.publicKey,
+                        staticKey.getKeyBase64(),
+                        hello.publicKey,
+                        reply.publicKey
+                    );
+                    this.session = {
+                        send: new Encryption(keys.clientToServer),
+                        receive: new Encryption(keys.serverToClient)
+                    };
+                    this.sendCounter = 0;
+                    this.receiveCounter = 0;
+                    resolve();
+                } catch (err) {
+                    // A reply that does not decrypt was sealed with another key
+                    reject(err instanceof RpcError ? err : new RpcError('UNAUTHORIZED', (err as Error).message));
+                }
+            };
+
+            this.socket!.write(JSON.stringify(request) + '\n');
+        });
+    }
+
+    /**
+     * Repeat the handshake on the open connection after the long-term key
+     * changed (invite pairing). Requests wait until it completes
+     */
+    private async rehandshake(): Promise<void> {
+        if (!this.connected) {
+            return this.ensureConnected();
+        }
+
+        this.handshakePromise = this.handshake().finally(() => {
+            this.handshakePromise = null;
+        });
+        return this.handshakePromise;
+    }
+
     /**
      * Manually trigger a reconnection
      */
@@ -234,6 +482,42 @@ export class RpcClient {
         await this.ensureConnected();
     }
 
+    /**
+     * Re-establish server-side subscriptions after a reconnect,
+     * replaying whatever was produced while disconnected
+     */
+    private resubscribe(): void {
+        for (const subscription of this.subscriptions.values()) {
+            this.attachSubscription(subscription).catch((err) => {
+                // Connection trouble is retried on the next reconnect; anything
+                // else (e.g. the session is gone) ends the subscription
+                if (!(err instanceof RpcError) || !err.retryable) {
+                    subscription.close();
+                }
+            });
+        }
+    }
+
+    /**
+     * Subscribe on the daemon, then replay the backlog from the subscription's
+     * cursor. Outputs pushed in between are held so ordering is preserved
+     */
+    private async attachSubscription(subscription: SessionSubscription): Promise<void> {
+        const { sessionId } = subscription;
+        subscription.hold();
+
+        try {
+            await this.call('subscribe-session', { sessionId });
+            const backlog = await this.call('get-output', {
+                sessionId,
+                sinceSeq: subscription.getLastSeq()
+            });
+            subscription.resume(backlog);
+        } finally {
+            subscription.release();
+        }
+    }
+
     private processBuffer(): void {
         const lines = this.buffer.split('\n');
         this.buffer = lines.pop() || '';
@@ -242,18 +526,41 @@ export class RpcClient {
             if (!line.trim()) continue;
             try {
                 const response = JSON.parse(line);
-                const pending = this.pendingRequests.get(response.id);
-                if (pending) {
-                    this.pendingRequests.delete(response.id);
-                    clearTimeout(pending.timeoutId);
-
-                    if (!response.ok) {
-                        pending.reject(new Error(response.error || 'RPC failed'));
-                    } else if (response.result) {
-                        pending.resolve(this.encryption.decrypt(response.result));
-                    } else {
-                        pending.resolve({});
+
+                // Handshake reply (the only frame without an id or event)
+                if (response.id === undefined && response.event === undefined) {
+                    this.pendingHandshake?.(response as HandshakeResponse);
+                    continue;
+                }
+
+                if (!this.session) continue;
+
+                // Server-push event frame
+                if (typeof response.event === 'string') {
+                    const sealed = this.session.receive.decrypt<SealedEvent>(response.data);
+                    if (sealed.event === response.event && this.acceptCounter(sealed)) {
+                        this.emitEvent(response.event, sealed.data);
                     }
+                    continue;
+                }
+
+                const pending = this.pendingRequests.get(response.id);
+                if (!pending) continue;
+
+                // Results and errors are both sealed; an unsealed frame is not from this connection's daemon session
+                if (typeof response.result !== 'string') continue;
+
+                // Drop replayed or mismatched responses; the real one may still arrive
+                const sealed = this.session.receive.decrypt<SealedResponse>(response.result);
+                if (sealed.id !== response.id || !this.acceptCounter(sealed)) continue;
+
+                this.pendingRequests.delete(response.id);
+                clearTimeout(pending.timeoutId);
+
+                if (!response.ok) {
+                    pending.reject(remoteError(sealed.error));
+                } else {
+                    pending.resolve(sealed.result ?? {});
                 }
             } catch {
                 // Ignore parse errors
@@ -261,36 +568,123 @@ export class RpcClient {
         }
     }
 
-    async call<T = unknown>(method: string, params: unknown, timeoutMs = 30000): Promise<T> {
+    /**
+     * Check a daemon frame is fresh and newer than the last one on this connection
+     */
+    private acceptCounter(sealed: { ts: number; counter: number }): boolean {
+        if (typeof sealed.ts !== 'number' || Math.abs(Date.now() - sealed.ts) > MAX_CLOCK_SKEW_MS) {
+            return false;
+        }
+        if (typeof sealed.counter !== 'number' || sealed.counter <= this.receiveCounter) {
+            return false;
+        }
+        this.receiveCounter = sealed.counter;
+        return true;
+    }
+
+    /**
+     * Call a daemon method; params and result are typed by the shared method map
+     * Both are checked against the method's schemas, throwing a ValidationError
+     * that names the offending field
+     */
+    async call<M extends RpcMethod>(method: M, params: RpcParams<M>, timeoutMs = 30000): Promise<RpcResult<M>> {
+        validateParams(method, params);
         await this.ensureConnected();
+        if (this.handshakePromise) {
+            await this.handshakePromise;
+        }
 
         const requestId = randomUUID();
-        const request = {
+        const sealed: SealedRequest = {
+            id: requestId,
+            method,
+            ts: Date.now(),
+            counter: ++this.sendCounter,
+            params
+        };
+        const request: RpcRequest = {
             id: requestId,
             method,
-            params: this.encryption.encrypt(params)
+            params: this.session!.send.encrypt(sealed)
         };
 
-        return new Promise((resolve, reject) => {
+        const result = await new Promise<unknown>((resolve, reject) => {
             const timeoutId = setTimeout(() => {
                 this.pendingRequests.delete(requestId);
-                reject(new Error('Request timed out'));
+                reject(new RpcError('TIMEOUT', 'Request timed out'));
             }, timeoutMs);
 
-            this.pendingRequests.set(requestId, {
-                resolve: resolve as (value: unknown) => void,
-                reject,
-                timeoutId
-            });
+            this.pendingRequests.set(requestId, { resolve, reject, timeoutId });
 
             try {
                 this.socket!.write(JSON.stringify(request) + '\n');
             } catch (err) {
                 this.pendingRequests.delete(requestId);
                 clearTimeout(timeoutId);
-                reject(err);
+                reject(new RpcError('TRANSPORT', (err as Error).message));
+            }
+        });
+        return validateResult(method, result);
+    }
+
+    /**
+     * Register this device with the daemon
+     * Needed once per device before any other call; safe to repeat
+     */
+    async pair(name: string): Promise<PairResult> {
+        return this.call('pair', { name });
+    }
+
+    /**
+     * Pair this device using a v2 invite
+     * The reply carries the data key, which replaces the client's encryption
+     * key and should be saved for later connections. Allows time for the
+     * daemon operator to confirm the pairing.
+     */
+    async pairWithInvite(name: string, invite: PairingInvite): Promise<PairResult> {
+        let result: PairResult;
+        this.invite = invite;
+        try {
+            await this.rehandshake();
+            result = await this.call('pair', { name }, 5 * 60 * 1000);
+        } finally {
+            this.invite = null;
+        }
+
+        if (!result.dataKey) {
+            throw new RpcError('INVALID_RESULT', 'Daemon did not return a data key');
+        }
+        this.encryption = new Encryption(result.dataKey, result.keyId);
+        await this.rehandshake();
+        return result;
+    }
+
+    /**
+     * Subscribe to a session's output
+     * Buffered output after `sinceSeq` is replayed first, then the daemon pushes
+     * each new output as it is produced. The subscription is re-established
+     * automatically after a reconnect, resuming from the last seq delivered
+     */
+    async subscribeSession(sessionId: string, options: SubscribeOptions = {}): Promise<SessionSubscription> {
+        const existing = this.subscriptions.get(sessionId);
+        if (existing) return existing;
+
+        const subscription = new SessionSubscription(sessionId, options, () => {
+            this.subscriptions.delete(sessionId);
+            if (this.connected) {
+                this.call('unsubscribe-session', { sessionId }).catch(() => {});
             }
         });
+        this.subscriptions.set(sessionId, subscription);
+
+        try {
+            await this.attachSubscription(subscription);
+        } catch (err) {
+            subscription.close();
+            throw err;
+        }
+
+        return subscription;
     }
 
     async destroy(): Promise<void> {
@@ -305,10 +699,15 @@ export class RpcClient {
         // Reject all pending requests
         for (const [, { reject, timeoutId }] of this.pendingRequests) {
             clearTimeout(timeoutId);
-            reject(new Error('Client destroyed'));
+            reject(new RpcError('TRANSPORT', 'Client destroyed', { retryable: false }));
         }
         this.pendingRequests.clear();
 
+        // End all subscriptions
+        for (const subscription of this.subscriptions.values()) {
+            subscription.close();
+        }
+
         // Close socket
         if (this.socket && !this.socket.destroyed) {
             this.socket.destroy();
@@ -321,14 +720,26 @@ export class RpcClient {
 
 /**
  * Parse pairing URL
+ * v1 carries the permanent data key; v2 carries a one-time invite
  */
+export interface PairingInvite {
+    id: string;
+    secret: string;
+    expiresAt: number;
+    confirm: boolean;
+}
+
 export interface PairingInfo {
+    version: number;
     dhtPublicKey: string;
-    dataKey: string;
+    dataKey?: string; // v1
+    keyId?: number; // v1, id of dataKey after a rotation
+    invite?: PairingInvite; // v2
     metadata?: {
         host?: string;
         platform?: string;
         createdAt?: number;
+        rootDirs?: string[];
     };
 }
 
@@ -341,18 +752,48 @@ export function parsePairingUrl(input: string): PairingInfo {
     for (const prefix of prefixes) {
         if (input.startsWith(prefix)) {
             const code = input.replace(prefix, '');
+            let decoded;
             try {
-                const decoded = JSON.parse(Buffer.from(code, 'base64').toString('utf-8'));
+                decoded = JSON.parse(Buffer.from(code, 'base64').toString('utf-8'));
+            } catch (e) {
+                throw new Error(`Failed to parse pairing URL: ${(e as Error).message}`);
+            }
+
+            const version = decoded.v ?? 1;
+            if (version === 1) {
                 return {
+                    version,
                     dhtPublicKey: decoded.dhtPublicKey,
                     dataKey: decoded.dataKey,
+                    keyId: decoded.keyId,
+                    metadata: decoded.metadata
+                };
+            }
+            if (version === 2) {
+                return {
+                    version,
+                    dhtPublicKey: decoded.dhtPublicKey,
+                    invite: decoded.invite,
                     metadata: decoded.metadata
                 };
-            } catch (e) {
-                throw new Error(`Failed to parse pairing URL: ${(e as Error).message}`);
             }
+            throw new Error(`Unsupported pairing URL version: ${version}`);
         }
     }
 
     throw new Error('Invalid pairing URL format');
 }
+
+/**
+ * Check a directory against the roots a daemon advertises in its pairing
+ * metadata, before asking it to spawn a session there. The daemon has the
+ * final say, since it also resolves symlinks and applies its deny-list
+ */
+export function isWithinRoots(directory: string, roots: string[] | undefined): boolean {
+    if (!roots || roots.length === 0) return true;
+
+    return roots.some(root => {
+        const rel = relative(resolve(root), resolve(directory));
+        return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+    });
+}
@@ -0,0 +1,96 @@
+/**
+ * Ink viewport for the chat transcript, and search match highlighting
+ *
+ * The viewport renders all of its content, clipped to `height` rows and
+ * scrolled by `offset` lines up from the bottom (0 follows the latest output).
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Text, measureElement, useStdout, type DOMElement } from 'ink';
+
+interface ScrollViewProps {
+    height: number;
+    offset: number;
+    onContentResize: (height: number, delta: number) => void;
+    children: React.ReactNode;
+}
+
+export function ScrollView({ height, offset, onContentResize, children }: ScrollViewProps) {
+    const contentRef = useRef<DOMElement>(null);
+    const measuredRef = useRef(0);
+
+    // Report the content height after each render, so the caller can keep
+    // its scroll position when output arrives above the bottom
+    useEffect(() => {
+        if (!contentRef.current) return;
+        const measured = measureElement(contentRef.current).height;
+        if (measured !== measuredRef.current) {
+            const delta = measured - measuredRef.current;
+            measuredRef.current = measured;
+            onContentResize(measured, delta);
+        }
+    });
+
+    return (
+        <Box height={height} overflowY="hidden" flexDirection="column" justifyContent="flex-end">
+            <Box ref={contentRef} flexDirection="column" flexShrink={0} marginBottom={-offset}>
+                {children}
+            </Box>
+        </Box>
+    );
+}
+
+/**
+ * Terminal height in rows, updated on resize
+ */
+export function useTerminalRows(): number {
+    const { stdout } = useStdout();
+    const [rows, setRows] = useState(stdout.rows || 24);
+
+    useEffect(() => {
+        const onResize = () => setRows(stdout.rows || 24);
+        stdout.on('resize', onResize);
+        return () => {
+            stdout.off('resize', onResize);
+        };
+    }, [stdout]);
+
+    return rows;
+}
+
+/**
+ * Split text around case-insensitive matches of a query
+ */
+export function splitMatches(text: string, query?: string): Array<{ text: string; match: boolean }> {
+    if (!query) {
+        return [{ text, match: false }];
+    }
+
+    const parts: Array<{ text: string; match: boolean }> = [];
+    const haystack = text.toLowerCase();
+    const needle = query.toLowerCase();
+    let start = 0;
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+        if (index > start) parts.push({ text: text.slice(start, index), match: false });
+        parts.push({ text: text.slice(index, index + needle.length), match: true });
+        start = index + needle.length;
+        index = haystack.indexOf(needle, start);
+    }
+    if (start < text.length) parts.push({ text: text.slice(start), match: false });
+
+    return parts;
+}
+
+/**
+ * Text with search matches highlighted; nest inside a <Text>
+ */
+export function Highlight({ text, query }: { text: string; query?: string }) {
+    return (
+        <>
+            {splitMatches(text, query).map((part, i) => part.match
+                ? <Text key={i} backgroundColor="yellow" color="black">{part.text}</Text>
+                : part.text)}
+        </>
+    );
+}
@@ -0,0 +1,138 @@
+/**
+ * Typed client for driving a daemon from other programs
+ *
+ * Wraps RpcClient with one method per RPC method. Params and results come from
+ * the shared method map, so they stay in step with what the daemon handles.
+ * Failed calls throw an RpcError whose `code` says what went wrong.
+ *
+ *     const claude = await P2PClaudeClient.connect(pairingUrl);
+ *     const spawned = await claude.spawnSession({ directory: '/repo' });
+ *     ...
+ *     await claude.close();
+ */
+
+import { hostname } from 'node:os';
+import { connectToDaemon } from './connect.js';
+import type { RpcClient, PairingInfo, SessionSubscription, SubscribeOptions, ConnectionListener, EventListener } from './rpc.js';
+import type { RpcMethod, RpcParams, RpcResult } from '../rpc-methods.js';
+import type { PermissionRequest, PermissionResolvedEvent, PermissionDecision } from '../types.js';
+
+export interface P2PClaudeClientOptions {
+    deviceName?: string; // Name this device pairs with (default: hostname)
+    onPairingCode?: (code: string) => void; // The invite needs the daemon operator to confirm this code
+}
+
+export class P2PClaudeClient {
+    private constructor(
+        readonly rpc: RpcClient, // For anything not covered here
+        readonly info: PairingInfo
+    ) {}
+
+    /**
+     * Connect to the daemon in a pairing URL and pair this device
+     * Keys from an invite or a rekey are saved for the next connection, as the chat does
+     */
+    static async connect(pairingUrl: string, options: P2PClaudeClientOptions = {}): Promise<P2PClaudeClient> {
+        const { client, info } = await connectToDaemon(pairingUrl, options.deviceName || hostname(), {
+            onPairingCode: options.onPairingCode
+        });
+        return new P2PClaudeClient(client, info);
+    }
+
+    /**
+     * Call any method by name
+     */
+    call<M extends RpcMethod>(method: M, params: RpcParams<M>, timeoutMs?: number): Promise<RpcResult<M>> {
+        return this.rpc.call(method, params, timeoutMs);
+    }
+
+    spawnSession(options: RpcParams<'spawn-session'>): Promise<RpcResult<'spawn-session'>> {
+        return this.call('spawn-session', options);
+    }
+
+    resumeSession(sessionId: string): Promise<RpcResult<'resume-session'>> {
+        return this.call('resume-session', { sessionId });
+    }
+
+    listSessions(): Promise<RpcResult<'list-sessions'>> {
+        return this.call('list-sessions', {});
+    }
+
+    listResumableSessions(): Promise<RpcResult<'list-resumable-sessions'>> {
+        return this.call('list-resumable-sessions', {});
+    }
+
+    sendMessage(sessionId: string, text: string): Promise<RpcResult<'send-message'>> {
+        return this.call('send-message', { sessionId, text });
+    }
+
+    interruptSession(sessionId: string): Promise<RpcResult<'interrupt-session'>> {
+        return this.call('interrupt-session', { sessionId });
+    }
+
+    configureSession(options: RpcParams<'configure-session'>): Promise<RpcResult<'configure-session'>> {
+        return this.call('configure-session', options);
+    }
+
+    stopSession(sessionId: string): Promise<RpcResult<'stop-session'>> {
+        return this.call('stop-session', { sessionId });
+    }
+
+    getOutput(sessionId: string, sinceSeq?: number): Promise<RpcResult<'get-output'>> {
+        return this.call('get-output', { sessionId, sinceSeq });
+    }
+
+    /**
+     * Live output of a session; iterate with `for await` and close() when done
+     * Replays buffered output after `sinceSeq` first (default: everything buffered)
+     */
+    streamOutput(sessionId: string, options: SubscribeOptions = {}): Promise<SessionSubscription> {
+        return this.rpc.subscribeSession(sessionId, options);
+    }
+
+    answerPermission(requestId: string, decision: PermissionDecision, message?: string): Promise<RpcResult<'answer-permission'>> {
+        return this.call('answer-permission', { requestId, decision, message });
+    }
+
+    getUsage(sessionId?: string): Promise<RpcResult<'get-usage'>> {
+        return this.call('get-usage', sessionId ? { sessionId } : {});
+    }
+
+    exportTranscript(options: RpcParams<'export-transcript'>): Promise<RpcResult<'export-transcript'>> {
+        return this.call('export-transcript', options);
+    }
+
+    getSessionState(): Promise<RpcResult<'get-session-state'>> {
+        return this.call('get-session-state', {});
+    }
+
+    ping(): Promise<RpcResult<'ping'>> {
+        return this.call('ping', {});
+    }
+
+    /**
+     * Claude asks to use a tool; answer with answerPermission()
+     * Returns a function that removes the listener
+     */
+    onPermissionRequest(listener: EventListener<PermissionRequest>): () => void {
+        return this.rpc.onEvent('permission-request', listener);
+    }
+
+    /**
+     * A permission request was answered (by any device), timed out or its session ended
+     */
+    onPermissionResolved(listener: EventListener<PermissionResolvedEvent>): () => void {
+        return this.rpc.onEvent('permission-resolved', listener);
+    }
+
+    onConnectionChange(listener: ConnectionListener): () => void {
+        return this.rpc.onConnectionChange(listener);
+    }
+
+    /**
+     * Disconnect; sessions keep running on the daemon
+     */
+    close(): Promise<void> {
+        return this.rpc.destroy();
+    }
+}
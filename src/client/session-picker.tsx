@@ -0,0 +1,54 @@
+/**
+ * Ink session picker - choose an existing session or start a new one
+ */
+
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { SessionInfo } from '../types.js';
+
+interface SessionPickerProps {
+    sessions: SessionInfo[];
+    currentSessionId: string | null;
+    directory: string;
+    onSelect: (sessionId: string | null) => void; // null = spawn a new session
+    onCancel?: () => void;
+}
+
+export function SessionPicker({ sessions, currentSessionId, directory, onSelect, onCancel }: SessionPickerProps) {
+    // Last entry is "new session"
+    const [selected, setSelected] = useState(0);
+    const count = sessions.length + 1;
+
+    useInput((_, key) => {
+        if (key.upArrow) {
+            setSelected(prev => (prev - 1 + count) % count);
+        } else if (key.downArrow) {
+            setSelected(prev => (prev + 1) % count);
+        } else if (key.return) {
+            onSelect(selected < sessions.length ? sessions[selected].sessionId : null);
+        } else if (key.escape && onCancel) {
+            onCancel();
+        }
+    });
+
+    return (
+        <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1}>
+            <Text color="cyan" bold>Sessions</Text>
+            {sessions.map((session, i) => (
+                <Text key={session.sessionId} color={i === selected ? 'green' : undefined}>
+                    {i === selected ? '❯ ' : '  '}
+                    {session.sessionId.slice(0, 8)}
+                    <Text color="gray"> {session.directory}</Text>
+                    <Text color="gray" dimColor> • started {new Date(session.createdAt).toLocaleTimeString()}</Text>
+                    {session.sessionId === currentSessionId && <Text color="yellow"> (current)</Text>}
+                </Text>
+            ))}
+            <Text color={selected === sessions.length ? 'green' : undefined}>
+                {selected === sessions.length ? '❯ ' : '  '}
+                + New session
+                <Text color="gray"> {directory}</Text>
+            </Text>
+            <Text color="gray" dimColor>↑/↓ to move • Enter to select{onCancel ? ' • Esc to cancel' : ''}</Text>
+        </Box>
+    );
+}
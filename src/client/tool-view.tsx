@@ -0,0 +1,182 @@
+/**
+ * Ink views for Claude's tool calls: arguments, results and diffs for file edits
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { diffLines, trimContext, type DiffLine } from '../diff.js';
+import type { ContentBlock } from '../types.js';
+
+export interface ToolResult {
+    content: string;
+    isError: boolean;
+}
+
+// A tool_use block, joined with its tool_result once that arrives
+export interface ToolCall {
+    id: string;
+    name: string;
+    input: unknown;
+    result?: ToolResult;
+}
+
+// Lines shown for an expanded result or diff
+const MAX_RESULT_LINES = 20;
+const MAX_DIFF_LINES = 40;
+
+// Characters of the argument shown in a collapsed tool call
+const SUMMARY_LENGTH = 80;
+
+/**
+ * Summarize the tool input, showing the interesting field for common tools
+ */
+export function describeInput(input: unknown): string {
+    if (!input || typeof input !== 'object') {
+        return String(input ?? '');
+    }
+
+    const fields = input as Record<string, unknown>;
+    for (const key of ['command', 'file_path', 'notebook_path', 'path', 'url', 'pattern', 'query']) {
+        if (typeof fields[key] === 'string') {
+            return fields[key] as string;
+        }
+    }
+
+    return JSON.stringify(input, null, 2);
+}
+
+/**
+ * Text of a tool_result block (its content is a string or a list of blocks)
+ */
+export function toolResultText(content: ContentBlock['content']): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (Array.isArray(content)) {
+        return content.map(block => block.type === 'text' ? block.text ?? '' : `[${block.type}]`).join('\n');
+    }
+    return '';
+}
+
+function summarize(input: unknown): string {
+    const text = describeInput(input).split('\n')[0];
+    return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Diff for the file-editing tools, or null for other tools
+ */
+function inputDiff(name: string, input: unknown): DiffLine[] | null {
+    const fields = (input || {}) as Record<string, unknown>;
+    const text = (value: unknown) => typeof value === 'string' ? value : '';
+
+    switch (name) {
+        case 'Edit':
+            return trimContext(diffLines(text(fields.old_string), text(fields.new_string)));
+
+        case 'MultiEdit': {
+            const edits = Array.isArray(fields.edits) ? fields.edits as Array<Record<string, unknown>> : [];
+            return edits.flatMap((edit, index) => [
+                ...(index > 0 ? [{ type: 'skip' as const, text: `edit ${index + 1}` }] : []),
+                ...trimContext(diffLines(text(edit.old_string), text(edit.new_string)))
+            ]);
+        }
+
+        case 'Write':
+            return diffLines('', text(fields.content));
+
+        default:
+            return null;
+    }
+}
+
+export function DiffView({ lines }: { lines: DiffLine[] }) {
+    const shown = lines.slice(0, MAX_DIFF_LINES);
+
+    return (
+        <Box flexDirection="column">
+            {shown.map((line, i) => {
+                switch (line.type) {
+                    case 'add':
+                        return <Text key={i} color="green">+ {line.text}</Text>;
+                    case 'remove':
+                        return <Text key={i} color="red">- {line.text}</Text>;
+                    case 'skip':
+                        return <Text key={i} color="gray" dimColor>⋯ {line.text}</Text>;
+                    default:
+                        return <Text key={i} dimColor>  {line.text}</Text>;
+                }
+            })}
+            {lines.length > shown.length && (
+                <Text color="gray" dimColor>… {lines.length - shown.length} more line(s)</Text>
+            )}
+        </Box>
+    );
+}
+
+/**
+ * Tool arguments: a diff for file edits, the interesting field or JSON otherwise
+ */
+export function ToolInputView({ name, input }: { name: string; input: unknown }) {
+    const diff = inputDiff(name, input);
+    if (!diff) {
+        return <Text>{describeInput(input)}</Text>;
+    }
+
+    return (
+        <Box flexDirection="column">
+            <Text color="gray">{describeInput(input)}</Text>
+            <DiffView lines={diff} />
+        </Box>
+    );
+}
+
+function ToolResultView({ result, expanded }: { result: ToolResult; expanded: boolean }) {
+    const lines = result.content.split('\n');
+    const color = result.isError ? 'red' : 'gray';
+
+    if (!expanded) {
+        const first = lines[0].length > SUMMARY_LENGTH ? `${lines[0].slice(0, SUMMARY_LENGTH - 1)}…` : lines[0];
+        const more = lines.length > 1 ? ` (+${lines.length - 1} line(s))` : '';
+        return <Text color={color} dimColor={!result.isError}>⎿ {first}{more}</Text>;
+    }
+
+    const shown = lines.slice(0, MAX_RESULT_LINES);
+    return (
+        <Box flexDirection="column">
+            {shown.map((line, i) => (
+                <Text key={i} color={color} dimColor={!result.isError}>{i === 0 ? '⎿ ' : '  '}{line}</Text>
+            ))}
+            {lines.length > shown.length && (
+                <Text color="gray" dimColor>  … {lines.length - shown.length} more line(s)</Text>
+            )}
+        </Box>
+    );
+}
+
+/**
+ * A tool call and its result; collapsed to one line each unless expanded
+ */
+export function ToolCallView({ call, expanded }: { call: ToolCall; expanded: boolean }) {
+    const statusColor = !call.result ? 'yellow' : call.result.isError ? 'red' : 'green';
+
+    return (
+        <Box flexDirection="column">
+            <Text>
+                <Text color={statusColor}>⏺ </Text>
+                <Text color="magenta" bold>{call.name}</Text>
+                <Text color="gray">({summarize(call.input)})</Text>
+            </Text>
+            {expanded && (
+                <Box marginLeft={2}>
+                    <ToolInputView name={call.name} input={call.input} />
+                </Box>
+            )}
+            {call.result && (
+                <Box marginLeft={2}>
+                    <ToolResultView result={call.result} expanded={expanded} />
+                </Box>
+            )}
+        </Box>
+    );
+}
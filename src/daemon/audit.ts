@@ -0,0 +1,148 @@
+/**
+ * Tamper-evident audit log
+ *
+ * Every RPC and every tool call Claude makes is appended to audit.jsonl in
+ * the data directory. Each entry carries the hash of the previous one, so
+ * editing, removing or reordering entries breaks the chain and is caught by
+ * `p2p-claude audit verify`.
+ */
+
+import { createHash } from 'node:crypto';
+import { appendFileSync, closeSync, createReadStream, existsSync, fstatSync, openSync, readSync } from 'node:fs';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { AuditEntry, AuditRecord } from '../types.js';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// Enough to hold the last entry, even with a large tool input
+const TAIL_READ_BYTES = 1024 * 1024;
+
+/**
+ * Hash of an entry: sha256 over the previous hash and the entry without its hash
+ */
+export function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+    return createHash('sha256').update(entry.prevHash).update(JSON.stringify(entry)).digest('hex');
+}
+
+export function auditLogPath(dataDir: string): string {
+    return join(dataDir, 'audit.jsonl');
+}
+
+export class AuditLog {
+    private filePath: string;
+    private seq = 0;
+    private lastHash = GENESIS_HASH;
+
+    constructor(dataDir: string) {
+        this.filePath = auditLogPath(dataDir);
+        this.loadTail();
+    }
+
+    /**
+     * Continue the chain from the last entry on disk
+     */
+    private loadTail(): void {
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+
+        const fd = openSync(this.filePath, 'r');
+        try {
+            const size = fstatSync(fd).size;
+            const length = Math.min(size, TAIL_READ_BYTES);
+            const buffer = Buffer.alloc(length);
+            readSync(fd, buffer, 0, length, size - length);
+
+            const lines = buffer.toString('utf-8').split('\n').filter(line => line.trim());
+            const last = lines[lines.length - 1];
+            if (last) {
+                const entry = JSON.parse(last) as AuditEntry;
+                this.seq = entry.seq;
+                this.lastHash = entry.hash;
+            }
+        } catch (error) {
+            // Keep going: verify will point at the damage
+            console.error('[Audit] Failed to read the end of the audit log:', error);
+        } finally {
+            closeSync(fd);
+        }
+    }
+
+    /**
+     * Append an entry (synchronously, so entries are never reordered)
+     */
+    append(record: AuditRecord): void {
+        const unhashed: Omit<AuditEntry, 'hash'> = {
+            seq: this.seq + 1,
+            ts: Date.now(),
+            prevHash: this.lastHash,
+            ...record
+        };
+        const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+
+        try {
+            appendFileSync(this.filePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+            this.seq = entry.seq;
+            this.lastHash = entry.hash;
+        } catch (error) {
+            console.error('[Audit] Failed to write audit entry:', error);
+        }
+    }
+}
+
+/**
+ * Read all entries in order
+ */
+export async function* readAuditLog(dataDir: string): AsyncGenerator<{ line: number; entry: AuditEntry }> {
+    const filePath = auditLogPath(dataDir);
+    if (!existsSync(filePath)) {
+        return;
+    }
+
+    const rl = createInterface({ input: createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+    let line = 0;
+    for await (const text of rl) {
+        line++;
+        if (!text.trim()) continue;
+        yield { line, entry: JSON.parse(text) as AuditEntry };
+    }
+}
+
+export interface AuditVerifyResult {
+    ok: boolean;
+    entries: number;
+    error?: string; // First problem found, with its line number
+}
+
+/**
+ * Check the whole hash chain
+ */
+export async function verifyAuditLog(dataDir: string): Promise<AuditVerifyResult> {
+    let prevHash = GENESIS_HASH;
+    let seq = 0;
+    let entries = 0;
+
+    try {
+        for await (const { line, entry } of readAuditLog(dataDir)) {
+            const { hash, ...unhashed } = entry;
+            if (entry.seq !== seq + 1) {
+                return { ok: false, entries, error: `line ${line}: expected seq ${seq + 1}, found ${entry.seq}` };
+            }
+            if (entry.prevHash !== prevHash) {
+                return { ok: false, entries, error: `line ${line}: previous hash does not match entry ${seq}` };
+            }
+            if (hashEntry(unhashed) !== hash) {
+                return { ok: false, entries, error: `line ${line}: entry ${entry.seq} has been modified` };
+            }
+
+            prevHash = hash;
+            seq = entry.seq;
+            entries++;
+        }
+    } catch (error) {
+        return { ok: false, entries, error: `entry ${seq + 1} is unreadable: ${(error as Error).message}` };
+    }
+
+    return { ok: true, entries };
+}
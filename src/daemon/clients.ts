@@ -0,0 +1,165 @@
+/**
+ * Registry of paired client devices, stored in the data directory
+ *
+ * Each device connects with its own HyperDHT keypair. The daemon only serves
+ * requests from authorized public keys; revoked keys are refused at the
+ * DHT firewall.
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync, statSync, watchFile, unwatchFile } from 'node:fs';
+import { join } from 'node:path';
+import type { AuthorizedClient } from '../types.js';
+
+export class ClientRegistry {
+    private filePath: string;
+    private clients = new Map<string, AuthorizedClient>(); // Keyed by public key
+    private loadedMtime = 0;
+    private watcher: (() => void) | null = null;
+
+    constructor(dataDir: string) {
+        this.filePath = join(dataDir, 'authorized-clients.json');
+
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true });
+        }
+
+        this.load();
+    }
+
+    /**
+     * Load clients from disk, ignoring a missing or corrupt file
+     */
+    private load(): void {
+        this.clients.clear();
+        this.loadedMtime = 0;
+
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+
+        try {
+            this.loadedMtime = statSync(this.filePath).mtimeMs;
+            const data = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+            for (const client of (data.clients || []) as AuthorizedClient[]) {
+                this.clients.set(client.publicKey, client);
+            }
+        } catch (error) {
+            console.error('[Clients] Failed to load authorized clients:', error);
+        }
+    }
+
+    /**
+     * Pick up changes made by another process (e.g. `p2p-claude clients revoke`)
+     */
+    private reloadIfChanged(): void {
+        const mtime = existsSync(this.filePath) ? statSync(this.filePath).mtimeMs : 0;
+        if (mtime !== this.loadedMtime) {
+            this.load();
+        }
+    }
+
+    private save(): void {
+        const tmpPath = `${this.filePath}.tmp`;
+        writeFileSync(tmpPath, JSON.stringify({
+            clients: Array.from(this.clients.values())
+        }, null, 2), { mode: 0o600 });
+        renameSync(tmpPath, this.filePath);
+        this.loadedMtime = statSync(this.filePath).mtimeMs;
+    }
+
+    list(): AuthorizedClient[] {
+        this.reloadIfChanged();
+        return Array.from(this.clients.values());
+    }
+
+    /**
+     * Get an active (paired, not revoked) client
+     */
+    get(publicKey: string): AuthorizedClient | undefined {
+        this.reloadIfChanged();
+        const client = this.clients.get(publicKey);
+        return client && !client.revokedAt ? client : undefined;
+    }
+
+    isAuthorized(publicKey: string): boolean {
+        return this.get(publicKey) !== undefined;
+    }
+
+    isRevoked(publicKey: string): boolean {
+        this.reloadIfChanged();
+        return this.clients.get(publicKey)?.revokedAt !== undefined;
+    }
+
+    /**
+     * Authorize a device, or refresh an already paired one
+     * Names are unique; a taken name gets a numeric suffix
+     */
+    authorize(publicKey: string, name: string): AuthorizedClient {
+        this.reloadIfChanged();
+
+        const existing = this.clients.get(publicKey);
+        if (existing?.revokedAt) {
+            throw new Error(`Device ${existing.name} has been revoked`);
+        }
+
+        if (existing) {
+            existing.lastSeenAt = Date.now();
+            this.save();
+            return existing;
+        }
+
+        const client: AuthorizedClient = {
+            name: this.uniqueName(name || 'device'),
+            publicKey,
+            pairedAt: Date.now(),
+            lastSeenAt: Date.now()
+        };
+        this.clients.set(publicKey, client);
+        this.save();
+        return client;
+    }
+
+    /**
+     * Revoke a device by name or public key
+     * Returns the revoked client, or null if no active client matched
+     */
+    revoke(nameOrKey: string): AuthorizedClient | null {
+        this.reloadIfChanged();
+
+        for (const client of this.clients.values()) {
+            if (!client.revokedAt && (client.name === nameOrKey || client.publicKey === nameOrKey)) {
+                client.revokedAt = Date.now();
+                this.save();
+                return client;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Call back whenever the file changes on disk
+     */
+    watch(onChange: () => void): void {
+        this.unwatch();
+        const listener = () => {
+            this.reloadIfChanged();
+            onChange();
+        };
+        watchFile(this.filePath, { interval: 2000 }, listener);
+        this.watcher = () => unwatchFile(this.filePath, listener);
+    }
+
+    unwatch(): void {
+        this.watcher?.();
+        this.watcher = null;
+    }
+
+    private uniqueName(name: string): string {
+        const taken = new Set(Array.from(this.clients.values()).map(client => client.name));
+        if (!taken.has(name)) return name;
+
+        let suffix = 2;
+        while (taken.has(`${name}-${suffix}`)) suffix++;
+        return `${name}-${suffix}`;
+    }
+}
@@ -5,57 +5,228 @@
 
 import { randomUUID } from 'node:crypto';
 import { hostname } from 'node:os';
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { join, resolve } from 'node:path';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, watchFile, unwatchFile } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { join } from 'node:path';
 import { homedir } from 'node:os';
-import { DhtServer } from './dht.js';
-import { Encryption, generateEncryptionKey } from './encryption.js';
-import { spawnClaudeSession, type ClaudeSession } from '../claude/query.js';
+import { DhtServer, type RpcConnection, type RequestAuth } from './dht.js';
+import { SessionStore } from './session-store.js';
+import { PermissionBroker } from './permissions.js';
+import { ClientRegistry } from './clients.js';
+import { AccessPolicy, type AccessRequest } from './policy.js';
+import { DirectorySandbox, DEFAULT_DENY_DIRS, canonicalPath } from './sandbox.js';
+import { AuditLog } from './audit.js';
+import { UsageLedger, addUsage, emptyUsage, usageFromResult } from './usage.js';
+import { TranscriptLog } from './transcripts.js';
+import { RpcError } from '../errors.js';
+import { buildTranscript, renderTranscript } from './transcript-export.js';
+import { InviteStore } from './invites.js';
+import { Encryption, computeSas, generateEncryptionKey, parseKeyFile, type StoredKeyFile } from '../encryption.js';
+import { spawnClaudeSession, sendInterrupt, sendControlRequest, type ClaudeSession } from '../claude/query.js';
 import type {
     TrackedSession,
     SessionOutput,
+    SessionInfo,
     SpawnSessionOptions,
     SpawnSessionResult,
+    ResumeSessionOptions,
+    PersistedSession,
     SendMessageOptions,
     SendMessageResult,
+    InterruptSessionOptions,
+    InterruptSessionResult,
+    ConfigureSessionOptions,
+    ConfigureSessionResult,
+    ExportTranscriptOptions,
+    ExportTranscriptResult,
+    PermissionMode,
     GetOutputOptions,
     GetOutputResult,
-    PairingPayload
+    SubscribeSessionOptions,
+    SubscribeSessionResult,
+    AnswerPermissionOptions,
+    AnswerPermissionResult,
+    StopSessionOptions,
+    StopSessionResult,
+    GetSessionStateResult,
+    PermissionResolvedEvent,
+    PairOptions,
+    PairResult,
+    PairingMetadata,
+    PairingPayloadV1,
+    AuthorizedClient,
+    AuditRecord,
+    ClaudeMessage,
+    SessionEndReason,
+    UsageTotals,
+    GetUsageOptions,
+    GetUsageResult
 } from '../types.js';
+import { isRpcMethod, validateParams, type RpcMethod, type RpcParams, type RpcResult } from '../rpc-methods.js';
+
+// Outputs kept per session for get-output cursors; older ones are evicted
+const OUTPUT_BUFFER_LIMIT = 1000;
+
+// Seqs reserved in the session record at a time, so it is not rewritten for
+// every output yet a resume after a crash never reuses a seq clients have seen
+const SEQ_RESERVATION = 100;
+
+// How often idle and over-age sessions are looked for
+const REAP_INTERVAL_MS = 15 * 1000;
+
+
+type RpcHandler<M extends RpcMethod> = (params: RpcParams<M>, connection: RpcConnection, auth: RequestAuth) => Promise<RpcResult<M>>;
+type RpcHandlers = { [M in RpcMethod]: RpcHandler<M> };
+
+function notAcceptingInput(sessionId: string): RpcError {
+    return new RpcError('SESSION_UNAVAILABLE', 'Session is not accepting input', { data: { sessionId } });
+}
+
+/**
+ * Resolve the data directory (keys, session records, authorized clients)
+ */
+export function resolveDataDir(dataDir?: string): string {
+    return dataDir || process.env.P2P_CLAUDE_DATA_DIR || join(homedir(), '.p2p-claude');
+}
 
 export interface DaemonOptions {
     dataDir?: string;
     encryptionKey?: string; // Base64, will generate if not provided
-    rootDir?: string; // If set, sessions can only be spawned within this directory
+    rootDirs?: string[]; // If set, sessions can only be spawned within these directories
+    denyDirs?: string[]; // Never allowed, in addition to DEFAULT_DENY_DIRS and the data directory
+    limits?: SessionLimits;
+    budget?: UsageBudget;
+    allowKeyPairing?: boolean; // Let any device holding the data key pair without an invite (v1 URLs)
+}
+
+/**
+ * Resource limits for Claude sessions (all unlimited by default)
+ */
+export interface SessionLimits {
+    maxSessions?: number; // Running sessions across all clients
+    maxSessionsPerClient?: number; // Running sessions owned by one device
+    idleTimeoutMs?: number; // Since the last send-message or output
+    maxLifetimeMs?: number; // Since the session was spawned or resumed
+    maxTurns?: number; // Default and upper bound for SpawnSessionOptions.maxTurns
+}
+
+/**
+ * Daily spending limits; once reached, send-message is refused until the next day
+ */
+export interface UsageBudget {
+    dailyUsd?: number; // Per device
+    dailyTotalUsd?: number; // All devices together
 }
 
 export class Daemon {
     private dhtServer: DhtServer;
     private encryption: Encryption;
     private sessions = new Map<string, TrackedSession>();
+    private subscribedConnections = new Set<string>(); // Ids of connections whose close drops their subscriptions
+    private sessionStore: SessionStore;
+    private permissionBroker: PermissionBroker;
+    private clients: ClientRegistry;
+    private policy: AccessPolicy;
+    private audit: AuditLog;
+    private usage: UsageLedger;
+    private transcripts: TranscriptLog;
+    private budget: UsageBudget;
+    private invites: InviteStore;
+    private confirmQueue: Promise<unknown> = Promise.resolve();
+    private watchKeyFile: boolean;
+    private onKeyFileChange = () => this.reloadEncryptionKey();
     private dataDir: string;
-    private rootDir: string | null;
+    private sandbox: DirectorySandbox;
+    private limits: SessionLimits;
+    private allowKeyPairing: boolean;
+    private reapTimer: NodeJS.Timeout | null = null;
     private isShuttingDown = false;
 
+    // One handler per method in the shared method map
+    private readonly handlers: RpcHandlers = {
+        'pair': (params, connection, auth) => this.pair(params, connection, auth),
+        'spawn-session': (params, connection) => this.spawnSession(params, connection),
+        'resume-session': (params) => this.resumeSession(params),
+        'list-resumable-sessions': () => this.listResumableSessions(),
+        'send-message': (params, connection) => this.sendMessage(params, connection),
+        'interrupt-session': (params) => this.interruptSession(params),
+        'configure-session': (params) => this.configureSession(params),
+        'get-usage': (params, connection) => this.getUsage(params, connection),
+        'export-transcript': (params) => this.exportTranscript(params),
+        'get-output': (params) => this.getOutput(params),
+        'subscribe-session': (params, connection) => this.subscribeSession(params, connection),
+        'unsubscribe-session': (params, connection) => this.unsubscribeSession(params, connection),
+        'answer-permission': (params) => this.answerPermission(params),
+        'stop-session': (params) => this.stopSession(params),
+        'list-sessions': () => this.listSessions(),
+        'ping': async () => ({ pong: true, timestamp: Date.now() }),
+        'get-session-state': () => this.getSessionStateFromDht()
+    };
+
     constructor(options: DaemonOptions = {}) {
-        this.dataDir = options.dataDir || process.env.P2P_CLAUDE_DATA_DIR || join(homedir(), '.p2p-claude');
-        this.rootDir = options.rootDir ? resolve(options.rootDir) : null;
+        this.dataDir = resolveDataDir(options.dataDir);
+        this.limits = options.limits || {};
+        this.budget = options.budget || {};
+        this.allowKeyPairing = options.allowKeyPairing ?? false;
+        this.sandbox = new DirectorySandbox({
+            roots: options.rootDirs,
+            deny: [...DEFAULT_DENY_DIRS, this.dataDir, ...(options.denyDirs || [])]
+        });
 
-        // Load or generate encryption key
-        const encryptionKey = options.encryptionKey || this.loadOrCreateEncryptionKey();
-        this.encryption = new Encryption(encryptionKey);
+        // Load or generate encryption key (key files can hold several keys after rotation)
+        this.encryption = options.encryptionKey
+            ? new Encryption(options.encryptionKey)
+            : Encryption.fromKeyFile(this.loadOrCreateEncryptionKey());
+        this.watchKeyFile = !options.encryptionKey;
+
+        this.sessionStore = new SessionStore(this.dataDir);
+        this.audit = new AuditLog(this.dataDir);
+        this.usage = new UsageLedger(this.dataDir);
+        this.transcripts = new TranscriptLog(this.dataDir);
+
+        this.permissionBroker = new PermissionBroker({
+            dataDir: this.dataDir,
+            onRequest: (request) => {
+                this.sendSessionEvent(request.sessionId, 'permission-request', request);
+            },
+            onResolved: (request, decision) => {
+                this.audit.append({
+                    type: 'permission',
+                    sessionId: request.sessionId,
+                    directory: this.sessions.get(request.sessionId)?.directory,
+                    tool: { name: request.toolName, input: request.input },
+                    decision
+                });
+
+                const event: PermissionResolvedEvent = {
+                    requestId: request.requestId,
+                    sessionId: request.sessionId,
+                    decision
+                };
+                this.sendSessionEvent(request.sessionId, 'permission-resolved', event);
+            }
+        });
+
+        this.clients = new ClientRegistry(this.dataDir);
+        this.policy = new AccessPolicy(this.dataDir);
+        this.invites = new InviteStore(this.dataDir);
 
         this.dhtServer = new DhtServer({
             dataDir: this.dataDir,
             encryption: this.encryption,
-            onRequest: this.handleRpcRequest.bind(this)
+            clients: this.clients,
+            onRequest: this.handleRpcRequest.bind(this),
+            getInviteEncryption: (inviteId) => {
+                const invite = this.invites.get(inviteId);
+                return invite ? new Encryption(invite.secret) : null;
+            }
         });
     }
 
     /**
      * Load existing encryption key or create new one
      */
-    private loadOrCreateEncryptionKey(): string {
+    private loadOrCreateEncryptionKey(): StoredKeyFile {
         const keyPath = join(this.dataDir, 'encryption.key');
 
         // Ensure data directory exists
@@ -66,10 +237,10 @@ export class Daemon {
         // Try to load existing key
         if (existsSync(keyPath)) {
             try {
-                const data = JSON.parse(readFileSync(keyPath, 'utf-8'));
-                if (data.key) {
+                const file = parseKeyFile(JSON.parse(readFileSync(keyPath, 'utf-8')));
+                if (file) {
                     console.log('[Daemon] Loaded existing encryption key');
-                    return data.key;
+                    return file;
                 }
             } catch {
                 // Fall through to create new
@@ -78,17 +249,45 @@ export class Daemon {
 
         // Generate new key
         const key = generateEncryptionKey();
-        writeFileSync(keyPath, JSON.stringify({ key, createdAt: Date.now() }, null, 2));
+        writeFileSync(keyPath, JSON.stringify({ key, createdAt: Date.now() }, null, 2), { mode: 0o600 });
         console.log('[Daemon] Generated new encryption key');
-        return key;
+        return parseKeyFile({ key })!;
+    }
+
+    /**
+     * Pick up keys added by `p2p-claude rotate-keys` and hand the new key
+     * to connected clients
+     */
+    private reloadEncryptionKey(): void {
+        try {
+            const file = parseKeyFile(JSON.parse(readFileSync(join(this.dataDir, 'encryption.key'), 'utf-8')));
+            if (file && this.encryption.updateKeys(file)) {
+                console.log(`[Daemon] Encryption key rotated (key id ${file.currentKeyId})`);
+                this.dhtServer.announceRekey();
+            }
+        } catch (error) {
+            console.error('[Daemon] Failed to reload encryption key:', error);
+        }
     }
 
     /**
      * Start the daemon
      */
     async start(): Promise<void> {
+        await this.permissionBroker.start();
         await this.dhtServer.start();
 
+        // Drop connections as soon as `p2p-claude clients revoke` runs
+        this.clients.watch(() => this.dhtServer.disconnectRevoked());
+
+        if (this.watchKeyFile) {
+            watchFile(join(this.dataDir, 'encryption.key'), { interval: 2000 }, this.onKeyFileChange);
+        }
+
+        if (this.limits.idleTimeoutMs !== undefined || this.limits.maxLifetimeMs !== undefined) {
+            this.reapTimer = setInterval(() => this.reapSessions(), REAP_INTERVAL_MS);
+        }
+
         const dhtPublicKey = this.dhtServer.getPublicKeyBase64();
 
         console.log('');
@@ -98,13 +297,40 @@ export class Daemon {
         console.log('DHT Public Key:');
         console.log(`  ${dhtPublicKey}`);
         console.log('');
-        if (this.rootDir) {
-            console.log('Root Directory (sessions restricted to):');
-            console.log(`  ${this.rootDir}`);
+        const roots = this.sandbox.getRoots();
+        if (roots.length > 0) {
+            console.log('Root Directories (sessions restricted to):');
+            for (const root of roots) {
+                console.log(`  ${root}`);
+            }
             console.log('');
         }
-        console.log('Pairing URL:');
-        console.log(`  ${this.getPairingUrl()}`);
+        console.log('Denied Directories:');
+        for (const dir of this.sandbox.getDenied()) {
+            console.log(`  ${dir}`);
+        }
+        console.log('');
+        const limits = this.describeLimits();
+        if (limits.length > 0) {
+            console.log('Session Limits:');
+            for (const limit of limits) {
+                console.log(`  ${limit}`);
+            }
+            console.log('');
+        }
+        const resumable = this.sessionStore.list().length;
+        if (resumable > 0) {
+            console.log(`Resumable sessions: ${resumable} (use resume-session to continue them)`);
+            console.log('');
+        }
+        // Public details for `p2p-claude pair`, which runs as a separate process
+        writeFileSync(join(this.dataDir, 'daemon.json'), JSON.stringify({
+            dhtPublicKey,
+            metadata: this.getPairingMetadata()
+        }, null, 2));
+
+        console.log('To pair a new device, run:');
+        console.log('  p2p-claude pair');
         console.log('');
         console.log('Waiting for connections...');
         console.log('');
@@ -127,199 +353,888 @@ export class Daemon {
         // Set shutdown flag to prevent DHT operations during teardown
         this.isShuttingDown = true;
 
-        // Kill all sessions
+        if (this.reapTimer) {
+            clearInterval(this.reapTimer);
+            this.reapTimer = null;
+        }
+
+        // Kill all sessions (their records stay in dataDir for resume-session)
         for (const [sessionId, session] of this.sessions) {
             console.log(`Stopping session ${sessionId}...`);
+            this.sessionStore.update(sessionId, { nextSeq: session.nextSeq });
             session.process.kill('SIGTERM');
         }
         this.sessions.clear();
 
+        this.clients.unwatch();
+        unwatchFile(join(this.dataDir, 'encryption.key'), this.onKeyFileChange);
+        await this.permissionBroker.stop();
         await this.dhtServer.stop();
     }
 
     /**
-     * Get the pairing URL containing all connection info
+     * Get a permanent (v1) pairing URL containing the data key
+     * Prefer invites from `p2p-claude pair`, which never expose the key
      */
     getPairingUrl(): string {
-        const payload: PairingPayload = {
+        const payload: PairingPayloadV1 = {
             v: 1,
             dhtPublicKey: this.dhtServer.getPublicKeyBase64(),
             dataKey: this.encryption.getKeyBase64(),
-            metadata: {
-                host: hostname(),
-                platform: process.platform,
-                createdAt: Date.now(),
-                rootDir: this.rootDir || undefined
-            }
+            metadata: this.getPairingMetadata()
         };
+        const keyId = this.encryption.getCurrentKeyId();
+        if (keyId !== 0) {
+            payload.keyId = keyId;
+        }
 
         const code = Buffer.from(JSON.stringify(payload)).toString('base64');
         return `p2p-claude://connect?code=${code}`;
     }
 
+    private getPairingMetadata(): PairingMetadata {
+        return {
+            host: hostname(),
+            platform: process.platform,
+            createdAt: Date.now(),
+            rootDirs: this.sandbox.getRoots().length > 0 ? this.sandbox.getRoots() : undefined
+        };
+    }
+
     /**
      * Handle incoming RPC request
      */
-    private async handleRpcRequest(method: string, params: unknown): Promise<unknown> {
-        console.log(`[RPC] ${method}`);
+    private async handleRpcRequest(method: string, params: unknown, connection: RpcConnection, auth: RequestAuth): Promise<unknown> {
+        const client = this.clients.get(connection.remotePublicKey);
+        console.log(`[RPC] ${method} (${client?.name || 'unpaired'})`);
+
+        // Malformed params never reach the policy, the audit details or a handler
+        let checked: unknown;
+        try {
+            if (!isRpcMethod(method)) {
+                throw new RpcError('METHOD_NOT_FOUND', `Unknown method: ${method}`);
+            }
+            checked = validateParams(method, params);
+        } catch (error) {
+            this.audit.append({
+                type: 'rpc',
+                client: this.auditClient(client, connection),
+                method,
+                outcome: 'error',
+                error: (error as Error).message
+            });
+            throw error;
+        }
+
+        const access = this.describeRequest(method, checked);
+        const record: AuditRecord = {
+            type: 'rpc',
+            client: this.auditClient(client, connection, method === 'pair' ? (checked as PairOptions).name : undefined),
+            method,
+            sessionId: (checked as { sessionId?: string }).sessionId,
+            directory: access.directory,
+            details: this.auditDetails(method, checked)
+        };
+
+        // Enforce the device's role before dispatch (pairing is open to unpaired devices)
+        if (method !== 'pair' && client) {
+            const denied = this.policy.check(client, access);
+            if (denied) {
+                console.log(`[Policy] Denied ${method} for ${client.name}: ${denied}`);
+                this.audit.append({ ...record, outcome: 'denied', error: denied });
+                throw new RpcError('FORBIDDEN', `Forbidden: ${denied}`);
+            }
+        }
+
+        try {
+            const result = await this.dispatch(method, checked, connection, auth);
+            // spawn-session reports the id it generated
+            const sessionId = record.sessionId ?? (result as { sessionId?: string } | undefined)?.sessionId;
+            this.audit.append({ ...record, sessionId, outcome: 'ok' });
+            return result;
+        } catch (error) {
+            this.audit.append({ ...record, outcome: 'error', error: error instanceof Error ? error.message : String(error) });
+            throw error;
+        }
+    }
+
+    /**
+     * Run an RPC method
+     */
+    private async dispatch(method: string, params: unknown, connection: RpcConnection, auth: RequestAuth): Promise<unknown> {
+        if (!isRpcMethod(method)) {
+            throw new RpcError('METHOD_NOT_FOUND', `Unknown method: ${method}`);
+        }
+        const handler = this.handlers[method] as RpcHandler<RpcMethod>;
+        return handler(params as never, connection, auth);
+    }
+
+    /**
+     * Identity recorded in the audit log; unpaired devices are identified by
+     * the name they ask to pair with
+     */
+    private auditClient(client: AuthorizedClient | undefined, connection: RpcConnection, pairName?: string): AuditRecord['client'] {
+        const name = client?.name ?? (pairName !== undefined ? `unpaired:${pairName}` : 'unpaired');
+        return { name, publicKey: connection.remotePublicKey };
+    }
 
+    /**
+     * Request params worth keeping in the audit log (message text is left out)
+     */
+    private auditDetails(method: string, params: unknown): Record<string, unknown> | undefined {
+        const options = (params || {}) as Record<string, unknown>;
         switch (method) {
             case 'spawn-session':
-                return this.spawnSession(params as SpawnSessionOptions);
-
+                return { permissionMode: options.permissionMode || 'acceptEdits', model: options.model };
+            case 'configure-session':
+                return { permissionMode: options.permissionMode, model: options.model };
+            case 'export-transcript':
+                return { format: options.format || 'md' };
             case 'send-message':
-                return this.sendMessage(params as SendMessageOptions);
+                return { length: typeof options.text === 'string' ? options.text.length : 0 };
+            case 'answer-permission':
+                return { requestId: options.requestId, decision: options.decision };
+            default:
+                return undefined;
+        }
+    }
 
-            case 'get-output':
-                return this.getOutput(params as GetOutputOptions);
+    /**
+     * What a request touches, for the access policy: the session's directory,
+     * permission mode and model, and which device owns the session
+     * Every method that names a session is checked against its directory
+     */
+    private describeRequest(method: string, params: unknown): AccessRequest {
+        const options = (params || {}) as Record<string, unknown>;
+        const sessionId = typeof options.sessionId === 'string' ? options.sessionId : undefined;
 
-            case 'stop-session':
-                return this.stopSession((params as { sessionId: string }).sessionId);
+        switch (method) {
+            case 'spawn-session': {
+                const spawn = options as unknown as SpawnSessionOptions;
+                return {
+                    method,
+                    directory: spawn.directory,
+                    permissionMode: spawn.permissionMode || 'acceptEdits',
+                    model: spawn.model
+                };
+            }
 
-            case 'list-sessions':
-                return this.listSessions();
+            case 'resume-session': {
+                const record = this.sessionStore.get(sessionId!);
+                return {
+                    method,
+                    directory: record?.directory,
+                    permissionMode: record?.permissionMode,
+                    model: record?.model,
+                    sessionOwner: record ? record.owner ?? '' : undefined
+                };
+            }
 
-            case 'ping':
-                return { pong: true, timestamp: Date.now() };
+            case 'configure-session':
+                return {
+                    method,
+                    directory: this.getSessionDirectory(sessionId!),
+                    permissionMode: options.permissionMode as PermissionMode | undefined,
+                    model: options.model as string | undefined,
+                    sessionOwner: this.getSessionOwner(sessionId!)
+                };
+
+            case 'send-message':
+            case 'interrupt-session':
+            case 'stop-session':
+                return { method, directory: this.getSessionDirectory(sessionId!), sessionOwner: this.getSessionOwner(sessionId!) };
 
-            case 'get-session-state':
-                return this.getSessionStateFromDht();
+            case 'answer-permission': {
+                const request = this.permissionBroker.getPending(options.requestId as string);
+                return request
+                    ? { method, directory: this.getSessionDirectory(request.sessionId), sessionOwner: this.getSessionOwner(request.sessionId) }
+                    : { method };
+            }
 
             default:
-                throw new Error(`Unknown method: ${method}`);
+                // Reading a session (get-output, subscribe-session, export-transcript, ...)
+                return { method, directory: sessionId !== undefined ? this.getSessionDirectory(sessionId) : undefined };
+        }
+    }
+
+    /**
+     * A running session, or SESSION_NOT_FOUND
+     */
+    private getRunningSession(sessionId: string): TrackedSession {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new RpcError('SESSION_NOT_FOUND', `Session not found: ${sessionId}`, { data: { sessionId } });
+        }
+        return session;
+    }
+
+    /**
+     * Directory of a running, resumable or stopped session, or undefined if
+     * there is no such session
+     */
+    private getSessionDirectory(sessionId: string): string | undefined {
+        const known = this.sessions.get(sessionId)?.directory ?? this.sessionStore.get(sessionId)?.directory;
+        if (known !== undefined) {
+            return known;
+        }
+
+        // Stopped sessions are only left in their transcript
+        const started = this.transcripts.read(sessionId)?.find(entry => entry.type === 'session');
+        return started?.type === 'session' ? started.directory : undefined;
+    }
+
+    /**
+     * Owner of a session ('' for sessions from before owners were recorded,
+     * undefined if there is no such session)
+     */
+    private getSessionOwner(sessionId: string): string | undefined {
+        const session = this.sessions.get(sessionId);
+        if (session) {
+            return session.owner ?? '';
+        }
+        const record = this.sessionStore.get(sessionId);
+        return record ? record.owner ?? '' : undefined;
+    }
+
+    /**
+     * Authorize the connecting device's public key
+     * With an invite, which is consumed and exchanged for the data key, or with
+     * the data key, which only refreshes devices that are already paired
+     * (every paired device holds the key, so a revoked one could otherwise
+     * pair a fresh keypair) unless key pairing is allowed
+     */
+    private async pair(options: PairOptions, connection: RpcConnection, auth: RequestAuth): Promise<PairResult> {
+        if (!auth.inviteId) {
+            if (!this.allowKeyPairing && !this.clients.isAuthorized(connection.remotePublicKey)) {
+                throw new RpcError('UNAUTHORIZED', 'This device is not paired; pair it with an invite from `p2p-claude pair`');
+            }
+            const client = this.clients.authorize(connection.remotePublicKey, options.name);
+            return { name: client.name, publicKey: client.publicKey };
+        }
+
+        const invite = this.invites.get(auth.inviteId);
+        if (!invite) {
+            throw new RpcError('UNAUTHORIZED', 'Invite is invalid, expired or already used');
+        }
+
+        if (invite.confirm) {
+            const sas = computeSas(invite.secret, this.dhtServer.getPublicKeyBase64(), connection.remotePublicKey);
+            if (!await this.confirmPairing(options.name, sas)) {
+                throw new RpcError('UNAUTHORIZED', 'Pairing was rejected by the daemon operator');
+            }
+        }
+
+        if (!this.invites.consume(invite.id)) {
+            throw new RpcError('UNAUTHORIZED', 'Invite is invalid, expired or already used');
         }
+
+        const client = this.clients.authorize(connection.remotePublicKey, options.name);
+        console.log(`[Clients] Paired ${client.name} (${client.publicKey.slice(0, 12)}...) with invite`);
+        return {
+            name: client.name,
+            publicKey: client.publicKey,
+            dataKey: this.encryption.getKeyBase64(),
+            keyId: this.encryption.getCurrentKeyId()
+        };
+    }
+
+    /**
+     * Ask the operator at the daemon's terminal to approve a new device
+     * Prompts are shown one at a time; rejected if there is no terminal
+     */
+    private confirmPairing(name: string, sas: string): Promise<boolean> {
+        if (!process.stdin.isTTY) {
+            console.log(`[Clients] Cannot confirm pairing of ${name}: daemon has no terminal`);
+            return Promise.resolve(false);
+        }
+
+        const confirmation = this.confirmQueue.then(() => new Promise<boolean>((resolve) => {
+            const rl = createInterface({ input: process.stdin, output: process.stdout });
+            const timeoutId = setTimeout(() => {
+                console.log('\n[Clients] Pairing confirmation timed out');
+                rl.close();
+                resolve(false);
+            }, 2 * 60 * 1000);
+
+            console.log('');
+            console.log(`Device "${name}" wants to pair.`);
+            console.log(`Check that it shows the code: ${sas}`);
+            rl.question('Approve? [y/N] ', (answer) => {
+                clearTimeout(timeoutId);
+                rl.close();
+                resolve(answer.trim().toLowerCase() === 'y');
+            });
+        }));
+
+        this.confirmQueue = confirmation;
+        return confirmation;
     }
 
     /**
      * Spawn a new Claude session
      */
-    private async spawnSession(options: SpawnSessionOptions): Promise<SpawnSessionResult> {
+    private async spawnSession(options: SpawnSessionOptions, connection: RpcConnection): Promise<SpawnSessionResult> {
         const sessionId = options.sessionId || randomUUID();
-        const permissionMode = options.permissionMode || 'acceptEdits';
 
-        // Validate directory is within rootDir if set
-        if (this.rootDir) {
-            const resolvedDir = resolve(options.directory);
-            if (!resolvedDir.startsWith(this.rootDir)) {
-                console.log(`[Session] Rejected: ${resolvedDir} is outside root ${this.rootDir}`);
-                return {
-                    type: 'error',
-                    errorMessage: `Directory ${options.directory} is outside allowed root: ${this.rootDir}`
-                };
+        // Reusing an id would take over another device's session and its log
+        if (this.sessions.has(sessionId) || this.sessionStore.get(sessionId) || this.transcripts.has(sessionId)) {
+            throw new RpcError('INVALID_PARAMS', `Session id is already in use: ${sessionId}`, { data: { field: 'sessionId' } });
+        }
+
+        // Claude runs in the path that was checked, so a symlink swapped in afterwards is not followed
+        const directory = canonicalPath(options.directory);
+        const directoryError = this.checkDirectory(directory);
+        if (directoryError) {
+            throw new RpcError('SANDBOX_VIOLATION', directoryError, { data: { directory: options.directory } });
+        }
+
+        const limitError = this.checkSessionLimits(connection.remotePublicKey);
+        if (limitError) {
+            throw new RpcError('LIMIT_EXCEEDED', limitError);
+        }
+
+        const record: PersistedSession = {
+            sessionId,
+            directory,
+            permissionMode: options.permissionMode || 'acceptEdits',
+            model: options.model,
+            owner: connection.remotePublicKey,
+            maxTurns: options.maxTurns,
+            createdAt: Date.now(),
+            nextSeq: 1
+        };
+
+        const result = this.startSession(record);
+        this.sessionStore.put(record);
+        return result;
+    }
+
+    /**
+     * Resume a persisted session (e.g. after a daemon restart) with Claude's --resume
+     * The session keeps its id, so clients can reattach to it
+     */
+    private async resumeSession(options: ResumeSessionOptions): Promise<SpawnSessionResult> {
+        if (this.sessions.has(options.sessionId)) {
+            throw new RpcError('SESSION_RUNNING', `Session ${options.sessionId} is already running`, { data: { sessionId: options.sessionId } });
+        }
+
+        const record = this.sessionStore.get(options.sessionId);
+        if (!record) {
+            throw new RpcError('SESSION_NOT_FOUND', `No resumable session: ${options.sessionId}`, { data: { sessionId: options.sessionId } });
+        }
+
+        // Records from before directories were stored resolved are resolved here
+        const directory = canonicalPath(record.directory);
+        const directoryError = this.checkDirectory(directory);
+        if (directoryError) {
+            throw new RpcError('SANDBOX_VIOLATION', directoryError, { data: { directory: record.directory } });
+        }
+
+        // Resumed sessions count against the device that spawned them
+        const limitError = this.checkSessionLimits(record.owner);
+        if (limitError) {
+            throw new RpcError('LIMIT_EXCEEDED', limitError);
+        }
+
+        console.log(`[Session] Resuming ${record.sessionId} (claude session ${record.claudeSessionId || 'none'})`);
+        return this.startSession({ ...record, directory }, true);
+    }
+
+    /**
+     * List persisted sessions that are not currently running
+     */
+    private async listResumableSessions(): Promise<PersistedSession[]> {
+        return this.sessionStore.list().filter(record => !this.sessions.has(record.sessionId));
+    }
+
+    /**
+     * Validate directory against the sandbox
+     * Returns an error message, or null if the directory is allowed
+     */
+    private checkDirectory(directory: string): string | null {
+        const error = this.sandbox.check(directory);
+        if (error) {
+            console.log(`[Session] Rejected: ${error}`);
+        }
+        return error;
+    }
+
+    /**
+     * Check the session caps before starting a session owned by a device
+     * Returns an error message, or null if the session may start
+     */
+    private checkSessionLimits(owner?: string): string | null {
+        const { maxSessions, maxSessionsPerClient } = this.limits;
+
+        if (maxSessions !== undefined && this.sessions.size >= maxSessions) {
+            return `Session limit reached (${maxSessions} running)`;
+        }
+
+        if (maxSessionsPerClient !== undefined && owner !== undefined) {
+            const owned = Array.from(this.sessions.values()).filter(session => session.owner === owner).length;
+            if (owned >= maxSessionsPerClient) {
+                return `Session limit for this device reached (${maxSessionsPerClient} running)`;
             }
         }
 
-        console.log(`[Session] Spawning ${sessionId} in ${options.directory}`);
+        return null;
+    }
+
+    /**
+     * Requested turn limit, capped by the daemon's
+     */
+    private resolveMaxTurns(requested?: number): number | undefined {
+        const cap = this.limits.maxTurns;
+        if (requested === undefined) {
+            return cap;
+        }
+        return cap === undefined ? requested : Math.min(requested, cap);
+    }
+
+    /**
+     * Human-readable limits for the startup banner
+     */
+    private describeLimits(): string[] {
+        const { maxSessions, maxSessionsPerClient, idleTimeoutMs, maxLifetimeMs, maxTurns } = this.limits;
+        const lines: string[] = [];
+        if (maxSessions !== undefined) lines.push(`Max sessions: ${maxSessions}`);
+        if (maxSessionsPerClient !== undefined) lines.push(`Max sessions per device: ${maxSessionsPerClient}`);
+        if (idleTimeoutMs !== undefined) lines.push(`Idle timeout: ${Math.round(idleTimeoutMs / 60000)}m`);
+        if (maxLifetimeMs !== undefined) lines.push(`Max lifetime: ${Math.round(maxLifetimeMs / 60000)}m`);
+        if (maxTurns !== undefined) lines.push(`Max turns: ${maxTurns}`);
+        if (this.budget.dailyUsd !== undefined) lines.push(`Daily budget per device: $${this.budget.dailyUsd}`);
+        if (this.budget.dailyTotalUsd !== undefined) lines.push(`Daily budget for all devices: $${this.budget.dailyTotalUsd}`);
+        return lines;
+    }
+
+    /**
+     * Spawn the Claude process for a session record and start tracking it
+     * Throws SPAWN_FAILED if Claude Code cannot be started
+     */
+    private startSession(record: PersistedSession, resumed = false): SpawnSessionResult {
+        const { sessionId, permissionMode } = record;
+        const maxTurns = this.resolveMaxTurns(record.maxTurns);
+
+        console.log(`[Session] Spawning ${sessionId} in ${record.directory}`);
         console.log(`[Session] Permission mode: ${permissionMode}`);
 
         try {
+            // Route tool permission prompts to remote clients
+            const permissionPrompt = this.permissionBroker.registerSession(sessionId);
+
             const claudeSession = spawnClaudeSession({
-                cwd: options.directory,
+                cwd: record.directory,
                 permissionMode,
-                model: options.model
+                model: record.model,
+                maxTurns,
+                resume: record.claudeSessionId,
+                mcpConfig: permissionPrompt.mcpConfig,
+                permissionPromptTool: permissionPrompt.permissionPromptTool,
+                ...this.sandbox.claudeOptions()
             });
+            if (claudeSession.process.pid === undefined) {
+                throw new Error(`Claude Code could not be started in ${record.directory}`);
+            }
 
             const trackedSession: TrackedSession = {
                 sessionId,
-                pid: claudeSession.process.pid!,
+                pid: claudeSession.process.pid,
                 process: claudeSession.process,
                 outputBuffer: [],
+                nextSeq: record.nextSeq,
+                reservedSeq: record.nextSeq,
                 createdAt: Date.now(),
-                directory: options.directory
+                directory: record.directory,
+                permissionMode,
+                model: record.model,
+                claudeSessionId: record.claudeSessionId,
+                owner: record.owner,
+                maxTurns,
+                lastActivityAt: Date.now(),
+                usage: record.usage || emptyUsage(),
+                processCostUsd: 0,
+                subscribers: new Map()
             };
 
-            // Capture output
+            // Capture output and push it to subscribed clients
             claudeSession.onOutput((message) => {
-                trackedSession.outputBuffer.push({
-                    type: 'session-output',
-                    data: message,
-                    timestamp: Date.now()
-                });
+                // Remember Claude's own session id so the session can be resumed
+                if (message.type === 'system' && message.subtype === 'init' && message.session_id
+                    && message.session_id !== trackedSession.claudeSessionId) {
+                    trackedSession.claudeSessionId = message.session_id;
+                    this.sessionStore.update(sessionId, { claudeSessionId: message.session_id });
+                }
 
-                // Limit buffer size
-                if (trackedSession.outputBuffer.length > 1000) {
-                    trackedSession.outputBuffer = trackedSession.outputBuffer.slice(-500);
+                this.auditToolUses(trackedSession, message);
+
+                const usage = usageFromResult(message, trackedSession.processCostUsd);
+                if (usage) {
+                    trackedSession.processCostUsd = message.total_cost_usd ?? trackedSession.processCostUsd;
+                    this.recordUsage(trackedSession, usage);
                 }
+
+                this.pushOutput(trackedSession, { type: 'session-output', data: message });
             });
 
-            // Handle exit
+            // Handle exit - the record is kept so the session can be resumed
             claudeSession.process.on('exit', () => {
                 console.log(`[Session] ${sessionId} exited`);
-                this.sessions.delete(sessionId);
+                if (this.sessions.get(sessionId) === trackedSession) {
+                    this.pushSessionEnded(trackedSession, 'exited');
+                    this.permissionBroker.unregisterSession(sessionId);
+                    this.sessions.delete(sessionId);
+                }
+                this.sessionStore.update(sessionId, { nextSeq: trackedSession.nextSeq });
                 this.syncSessionStateToDht();
             });
 
             this.sessions.set(sessionId, trackedSession);
+            this.transcripts.append(sessionId, {
+                type: 'session',
+                ts: trackedSession.createdAt,
+                directory: record.directory,
+                permissionMode,
+                model: record.model,
+                resumed: resumed || undefined
+            });
 
             // Sync state to DHT
             this.syncSessionStateToDht();
 
             return {
-                type: 'success',
                 sessionId,
                 pid: trackedSession.pid
             };
         } catch (error) {
-            return {
-                type: 'error',
-                errorMessage: error instanceof Error ? error.message : 'Failed to spawn session'
-            };
+            this.permissionBroker.unregisterSession(sessionId);
+            throw new RpcError('SPAWN_FAILED', error instanceof Error ? error.message : 'Failed to spawn session', {
+                data: { sessionId }
+            });
+        }
+    }
+
+    /**
+     * Number and buffer an output, then push it to subscribed clients
+     */
+    private pushOutput(session: TrackedSession, output: Pick<SessionOutput, 'type' | 'data' | 'reason'>): void {
+        const numbered: SessionOutput = {
+            ...output,
+            seq: session.nextSeq++,
+            timestamp: Date.now()
+        };
+
+        if (session.nextSeq > session.reservedSeq) {
+            session.reservedSeq = session.nextSeq + SEQ_RESERVATION;
+            this.sessionStore.update(session.sessionId, { nextSeq: session.reservedSeq });
+        }
+
+        session.lastActivityAt = numbered.timestamp;
+        session.outputBuffer.push(numbered);
+        this.transcripts.append(session.sessionId, numbered.type === 'session-ended'
+            ? { type: 'ended', ts: numbered.timestamp, reason: numbered.reason! }
+            : { type: 'output', ts: numbered.timestamp, message: numbered.data });
+
+        // Limit buffer size (evicted ranges are reported as gaps by get-output)
+        if (session.outputBuffer.length > OUTPUT_BUFFER_LIMIT) {
+            session.outputBuffer.shift();
+        }
+
+        this.sendSessionEvent(session.sessionId, 'session-output', { sessionId: session.sessionId, output: numbered });
+    }
+
+    /**
+     * Push a session's terminal output
+     */
+    private pushSessionEnded(session: TrackedSession, reason: SessionEndReason): void {
+        this.pushOutput(session, {
+            type: 'session-ended',
+            data: { type: 'system', subtype: 'session_ended', result: reason },
+            reason
+        });
+    }
+
+    /**
+     * End a running session: tell its subscribers why, then kill the process
+     * The record is kept, so the session can still be resumed
+     */
+    private endSession(session: TrackedSession, reason: SessionEndReason): void {
+        const { sessionId } = session;
+
+        this.pushSessionEnded(session, reason);
+        session.process.kill('SIGTERM');
+        this.permissionBroker.unregisterSession(sessionId);
+        this.sessions.delete(sessionId);
+        this.sessionStore.update(sessionId, { nextSeq: session.nextSeq });
+
+        // Sync state to DHT
+        this.syncSessionStateToDht();
+    }
+
+    /**
+     * End sessions that have been idle or running for too long
+     */
+    private reapSessions(): void {
+        const { idleTimeoutMs, maxLifetimeMs } = this.limits;
+        const now = Date.now();
+
+        for (const session of Array.from(this.sessions.values())) {
+            if (maxLifetimeMs !== undefined && now - session.createdAt >= maxLifetimeMs) {
+                console.log(`[Session] ${session.sessionId} reached its maximum lifetime, stopping`);
+                this.endSession(session, 'max-lifetime');
+            } else if (idleTimeoutMs !== undefined && now - session.lastActivityAt >= idleTimeoutMs) {
+                console.log(`[Session] ${session.sessionId} is idle, stopping`);
+                this.endSession(session, 'idle-timeout');
+            }
+        }
+    }
+
+    /**
+     * Add a result message's usage to the session and to the device that sent
+     * the message (the session's owner if nobody has sent one since a resume)
+     */
+    private recordUsage(session: TrackedSession, usage: UsageTotals): void {
+        session.usage = addUsage(session.usage, usage);
+        this.sessionStore.update(session.sessionId, { usage: session.usage });
+
+        const payer = session.lastSender ?? session.owner;
+        if (payer) {
+            this.usage.record(payer, usage);
         }
     }
 
+    /**
+     * Check the daily budgets before a device sends a message
+     * Returns an error message, or null if the device may spend more
+     */
+    private checkBudget(publicKey: string): string | null {
+        const { dailyUsd, dailyTotalUsd } = this.budget;
+
+        if (dailyUsd !== undefined && this.usage.get(publicKey).today.costUsd >= dailyUsd) {
+            return `Daily budget of $${dailyUsd} for this device reached`;
+        }
+
+        if (dailyTotalUsd !== undefined && this.usage.today().costUsd >= dailyTotalUsd) {
+            return `Daily budget of $${dailyTotalUsd} for all devices reached`;
+        }
+
+        return null;
+    }
+
     /**
      * Send a message to a session
      */
-    private async sendMessage(options: SendMessageOptions): Promise<SendMessageResult> {
-        const session = this.sessions.get(options.sessionId);
-        if (!session) {
-            return { success: false, error: 'Session not found' };
+    private async sendMessage(options: SendMessageOptions, connection: RpcConnection): Promise<SendMessageResult> {
+        const session = this.getRunningSession(options.sessionId);
+
+        const budgetError = this.checkBudget(connection.remotePublicKey);
+        if (budgetError) {
+            console.log(`[Usage] Refused message: ${budgetError}`);
+            throw new RpcError('BUDGET_EXCEEDED', budgetError);
         }
 
+        session.lastActivityAt = Date.now();
+        session.lastSender = connection.remotePublicKey;
+
         try {
-            const claudeSession = this.getClaudeSession(session);
-            claudeSession.sendMessage(options.text);
-            return { success: true };
+            this.getClaudeSession(session).sendMessage(options.text);
         } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Failed to send message'
-            };
+            throw new RpcError('SESSION_UNAVAILABLE', error instanceof Error ? error.message : 'Failed to send message', {
+                data: { sessionId: session.sessionId }
+            });
         }
+
+        this.transcripts.append(session.sessionId, {
+            type: 'prompt',
+            ts: session.lastActivityAt,
+            text: options.text,
+            sender: this.clients.get(connection.remotePublicKey)?.name
+        });
+        return { success: true };
+    }
+
+    /**
+     * Stop the session's current turn, keeping the process and its context
+     */
+    private async interruptSession(options: InterruptSessionOptions): Promise<InterruptSessionResult> {
+        const session = this.getRunningSession(options.sessionId);
+        if (!this.getClaudeSession(session).interrupt()) {
+            throw notAcceptingInput(session.sessionId);
+        }
+
+        console.log(`[Session] Interrupted ${options.sessionId}`);
+        return { success: true };
+    }
+
+    /**
+     * Switch a running session's permission mode or model
+     * Claude applies the change from its next turn; the session record is
+     * updated so a resumed session keeps it
+     */
+    private async configureSession(options: ConfigureSessionOptions): Promise<ConfigureSessionResult> {
+        const { permissionMode, model } = options;
+        if (permissionMode === undefined && model === undefined) {
+            throw new RpcError('INVALID_PARAMS', 'Nothing to change: pass permissionMode or model');
+        }
+
+        const session = this.getRunningSession(options.sessionId);
+        const claudeSession = this.getClaudeSession(session);
+        if ((permissionMode !== undefined && !claudeSession.setPermissionMode(permissionMode))
+            || (model !== undefined && !claudeSession.setModel(model))) {
+            throw notAcceptingInput(session.sessionId);
+        }
+
+        if (permissionMode !== undefined) session.permissionMode = permissionMode;
+        if (model !== undefined) session.model = model;
+        this.sessionStore.update(session.sessionId, { permissionMode: session.permissionMode, model: session.model });
+        this.transcripts.append(session.sessionId, {
+            type: 'session',
+            ts: Date.now(),
+            directory: session.directory,
+            permissionMode: session.permissionMode,
+            model: session.model
+        });
+
+        console.log(`[Session] Configured ${session.sessionId}: permission mode ${session.permissionMode}, model ${session.model || 'default'}`);
+        return { success: true };
+    }
+
+    /**
+     * Usage of a session (running or resumable) and of the calling device
+     */
+    private async getUsage(options: GetUsageOptions, connection: RpcConnection): Promise<GetUsageResult> {
+        const result: GetUsageResult = {
+            client: this.usage.get(connection.remotePublicKey)
+        };
+
+        if (options.sessionId) {
+            result.session = this.sessions.get(options.sessionId)?.usage
+                ?? this.sessionStore.get(options.sessionId)?.usage
+                ?? emptyUsage();
+        }
+
+        const { dailyUsd, dailyTotalUsd } = this.budget;
+        if (dailyUsd !== undefined || dailyTotalUsd !== undefined) {
+            const remaining = [
+                dailyUsd !== undefined ? dailyUsd - result.client.today.costUsd : Infinity,
+                dailyTotalUsd !== undefined ? dailyTotalUsd - this.usage.today().costUsd : Infinity
+            ];
+            result.budget = { dailyUsd, dailyTotalUsd, remainingUsd: Math.max(0, Math.min(...remaining)) };
+        }
+
+        return result;
     }
 
     /**
-     * Get output from a session
+     * Render a session's full log (running, resumable or stopped) as a transcript
+     */
+    private async exportTranscript(options: ExportTranscriptOptions): Promise<ExportTranscriptResult> {
+        const format = options.format || 'md';
+        const entries = this.transcripts.read(options.sessionId);
+        if (!entries) {
+            throw new RpcError('SESSION_NOT_FOUND', `No transcript for session ${options.sessionId}`, { data: { sessionId: options.sessionId } });
+        }
+
+        return {
+            format,
+            filename: `claude-${options.sessionId.slice(0, 8)}.${format}`,
+            content: renderTranscript(buildTranscript(options.sessionId, entries), format)
+        };
+    }
+
+    /**
+     * Get output from a session after the given cursor
+     * Non-destructive, so any number of clients can read the same session
      */
     private async getOutput(options: GetOutputOptions): Promise<GetOutputResult> {
-        const session = this.sessions.get(options.sessionId);
-        if (!session) {
-            return { messages: [] };
+        const session = this.getRunningSession(options.sessionId);
+
+        const sinceSeq = options.sinceSeq ?? 0;
+        const messages = session.outputBuffer.filter(output => output.seq > sinceSeq);
+        const result: GetOutputResult = {
+            messages,
+            latestSeq: session.nextSeq - 1
+        };
+
+        // Report outputs the client never saw that are no longer buffered
+        const oldestSeq = session.outputBuffer[0]?.seq ?? session.nextSeq;
+        if (sinceSeq + 1 < oldestSeq) {
+            result.gap = { fromSeq: sinceSeq + 1, toSeq: oldestSeq - 1 };
         }
 
-        const messages = [...session.outputBuffer];
+        return result;
+    }
+
+    /**
+     * Subscribe a connection to a session's output
+     * Each new SessionOutput is pushed as a 'session-output' event until the
+     * client unsubscribes, the connection closes or the session exits
+     */
+    private async subscribeSession(options: SubscribeSessionOptions, connection: RpcConnection): Promise<SubscribeSessionResult> {
+        const session = this.getRunningSession(options.sessionId);
+
+        session.subscribers.set(connection.id, (event, data) => {
+            connection.sendEvent(event, data);
+        });
+
+        // One close handler per connection, however often it resubscribes
+        if (!this.subscribedConnections.has(connection.id)) {
+            this.subscribedConnections.add(connection.id);
+            connection.onClose(() => {
+                this.subscribedConnections.delete(connection.id);
+                for (const tracked of this.sessions.values()) {
+                    tracked.subscribers.delete(connection.id);
+                }
+            });
+        }
 
-        if (options.clear) {
-            session.outputBuffer = [];
+        // Catch the client up on prompts raised before it subscribed
+        for (const request of this.permissionBroker.listPending(session.sessionId)) {
+            connection.sendEvent('permission-request', request);
         }
 
-        return { messages };
+        return { subscribed: true };
     }
 
     /**
-     * Stop a session
+     * Push an event to every connection subscribed to a session
      */
-    private async stopSession(sessionId: string): Promise<{ success: boolean }> {
+    private sendSessionEvent(sessionId: string, event: string, data: unknown): void {
         const session = this.sessions.get(sessionId);
-        if (!session) {
-            return { success: false };
+        if (!session) return;
+
+        for (const send of session.subscribers.values()) {
+            send(event, data);
         }
+    }
 
-        session.process.kill('SIGTERM');
-        this.sessions.delete(sessionId);
+    /**
+     * Answer a pending tool permission request
+     */
+    private async answerPermission(options: AnswerPermissionOptions): Promise<AnswerPermissionResult> {
+        if (!this.permissionBroker.answer(options.requestId, options.decision, options.message)) {
+            throw new RpcError('NOT_FOUND', 'Permission request not found or already answered', { data: { requestId: options.requestId } });
+        }
+        return { success: true };
+    }
 
-        // Sync state to DHT
-        this.syncSessionStateToDht();
+    /**
+     * Stop pushing a session's output to a connection
+     */
+    private async unsubscribeSession(options: SubscribeSessionOptions, connection: RpcConnection): Promise<SubscribeSessionResult> {
+        const session = this.sessions.get(options.sessionId);
+        session?.subscribers.delete(connection.id);
+        return { subscribed: false };
+    }
+
+    /**
+     * Stop a session
+     */
+    private async stopSession(options: StopSessionOptions): Promise<StopSessionResult> {
+        const session = this.getRunningSession(options.sessionId);
+        this.endSession(session, 'stopped');
+
+        // Explicitly stopped sessions are not resumable
+        this.sessionStore.remove(session.sessionId);
 
         return { success: true };
     }
@@ -327,14 +1242,44 @@ export class Daemon {
     /**
      * List all active sessions
      */
-    private async listSessions(): Promise<Array<{ sessionId: string; pid: number; createdAt: number }>> {
+    private async listSessions(): Promise<SessionInfo[]> {
         return Array.from(this.sessions.values()).map(session => ({
             sessionId: session.sessionId,
             pid: session.pid,
-            createdAt: session.createdAt
+            createdAt: session.createdAt,
+            directory: session.directory
         }));
     }
 
+    /**
+     * Record each tool call Claude makes
+     */
+    private auditToolUses(session: TrackedSession, message: ClaudeMessage): void {
+        if (message.type !== 'assistant' || !Array.isArray(message.message?.content)) {
+            return;
+        }
+
+        for (const block of message.message.content) {
+            if (block.type === 'tool_use') {
+                this.audit.append({
+                    type: 'tool-use',
+                    client: session.owner ? this.ownerClient(session.owner) : undefined,
+                    sessionId: session.sessionId,
+                    directory: session.directory,
+                    tool: { name: block.name || 'unknown', id: block.id, input: block.input }
+                });
+            }
+        }
+    }
+
+    /**
+     * The device that owns a session, for audit entries not tied to a request
+     */
+    private ownerClient(publicKey: string): AuditRecord['client'] {
+        const client = this.clients.list().find(c => c.publicKey === publicKey);
+        return { name: client?.name ?? 'unknown', publicKey };
+    }
+
     /**
      * Get ClaudeSession interface from TrackedSession
      */
@@ -350,6 +1295,9 @@ export class Daemon {
                     session.process.stdin.write(JSON.stringify(message) + '\n');
                 }
             },
+            interrupt: () => sendInterrupt(session.process),
+            setPermissionMode: (mode: PermissionMode) => sendControlRequest(session.process, { subtype: 'set_permission_mode', mode }),
+            setModel: (model?: string) => sendControlRequest(session.process, { subtype: 'set_model', model }),
             onOutput: () => { /* Already set up */ },
             kill: () => session.process.kill('SIGTERM')
         };
@@ -385,7 +1333,7 @@ export class Daemon {
      * Get session state from DHT
      * Clients can use this to discover active sessions after reconnecting
      */
-    private async getSessionStateFromDht(): Promise<{ sessions: Array<{ sessionId: string; pid: number; createdAt: number; directory?: string }>; updatedAt: number } | null> {
+    private async getSessionStateFromDht(): Promise<GetSessionStateResult> {
         return this.dhtServer.getSessionState();
     }
 }
@@ -3,38 +3,106 @@
  */
 
 import DHT from 'hyperdht';
-import { randomBytes } from 'node:crypto';
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { randomBytes, randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync, watchFile, unwatchFile } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
 import { networkInterfaces } from 'node:os';
-import type { RpcRequest, RpcResponse } from '../types.js';
-import { Encryption } from './encryption.js';
+import type {
+    RpcRequest,
+    RpcResponse,
+    RpcEvent,
+    RekeyEvent,
+    HandshakeRequest,
+    HandshakeResponse,
+    HandshakeHello,
+    SealedRequest,
+    SealedResponse,
+    SealedEvent,
+    SessionState,
+    GetSessionStateResult
+} from '../types.js';
+import { Encryption, createEphemeralKey, deriveSessionKeys } from '../encryption.js';
+import type { ClientRegistry } from './clients.js';
+import { RpcError } from '../errors.js';
+
+// The only method an unpaired device may call
+const PAIR_METHOD = 'pair';
+
+// Requests whose timestamp is further than this from our clock are rejected,
+// and request ids are remembered for twice as long to catch replays
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
 
 export interface RpcHandler {
-    (method: string, params: unknown): Promise<unknown>;
+    (method: string, params: unknown, connection: RpcConnection, auth: RequestAuth): Promise<unknown>;
+}
+
+/**
+ * How a request was authenticated
+ */
+export interface RequestAuth {
+    inviteId?: string; // Set when the connection's handshake used this invite's secret
+}
+
+/**
+ * A connected client, passed to the RPC handler so it can push events
+ */
+export interface RpcConnection {
+    id: string;
+    remotePublicKey: string; // Base64 HyperDHT key identifying the client device
+    sendEvent(event: string, data: unknown): void;
+    onClose(callback: () => void): void;
 }
 
 export interface DhtServerOptions {
     dataDir?: string;
     encryption: Encryption;
+    clients: ClientRegistry;
     onRequest: RpcHandler;
+    getInviteEncryption?: (inviteId: string) => Encryption | null; // For pairing with an invite
     refreshInterval?: number; // ms, default 60000 (1 minute)
 }
 
-export interface SessionState {
-    sessionId: string;
-    pid: number;
-    createdAt: number;
-    directory?: string;
+interface KeyPair {
+    publicKey: Buffer;
+    secretKey: Buffer;
+}
+
+// Previous keypair, still listened on until it retires
+interface RetiringKeyPair extends KeyPair {
+    retiresAt: number;
+}
+
+type Socket = ReturnType<InstanceType<typeof DHT>['connect']>;
+type Server = ReturnType<InstanceType<typeof DHT>['createServer']>;
+
+interface ConnectionState {
+    socket: Socket;
+    remotePublicKey: string;
+    serverPublicKey: string; // Which of our keypairs the client connected to
+    keyId: number; // Data key the client authenticated the handshake with
+    session?: {
+        receive: Encryption; // Client to daemon
+        send: Encryption; // Daemon to client
+        inviteId?: string; // Handshake used this invite's secret; only pairing is allowed
+    };
+    rekeyedTo?: string; // Key generation last announced to this client
+    lastRequestCounter: number; // Highest request counter accepted
+    sendCounter: number; // Last counter sent in a response or event
 }
 
 export class DhtServer {
     private dht: InstanceType<typeof DHT>;
-    private server: ReturnType<InstanceType<typeof DHT>['createServer']> | null = null;
-    private keyPair: { publicKey: Buffer; secretKey: Buffer };
+    private server: Server | null = null;
+    private keyPair: KeyPair;
+    private previousKeyPairs: RetiringKeyPair[];
+    private retiringServers: Array<{ server: Server; retiresAt: number }> = [];
     private encryption: Encryption;
+    private clients: ClientRegistry;
     private onRequest: RpcHandler;
+    private getInviteEncryption: (inviteId: string) => Encryption | null;
+    private connections = new Map<string, ConnectionState>();
+    private seenRequestIds = new Map<string, number>(); // Request id -> when it can be forgotten
     private dataDir: string;
     private refreshInterval: number;
     private refreshTimer: NodeJS.Timeout | null = null;
@@ -43,31 +111,54 @@ export class DhtServer {
 
     constructor(options: DhtServerOptions) {
         this.encryption = options.encryption;
+        this.clients = options.clients;
         this.onRequest = options.onRequest;
+        this.getInviteEncryption = options.getInviteEncryption ?? (() => null);
         this.dataDir = options.dataDir || join(homedir(), '.p2p-claude');
         this.refreshInterval = options.refreshInterval ?? 60000; // 1 minute default
         this.dht = new DHT();
-        this.keyPair = this.loadOrCreateKeyPair();
+
+        const keyPairs = this.loadKeyPairs() ?? { current: this.createKeyPair(), previous: [] };
+        this.keyPair = keyPairs.current;
+        this.previousKeyPairs = keyPairs.previous;
     }
 
     /**
-     * Load existing keypair or create new one
+     * Load the current keypair, plus previous ones kept after rotation
      */
-    private loadOrCreateKeyPair(): { publicKey: Buffer; secretKey: Buffer } {
+    private loadKeyPairs(): { current: KeyPair; previous: RetiringKeyPair[] } | null {
         const keyPairPath = join(this.dataDir, 'dht-keypair.json');
 
         if (existsSync(keyPairPath)) {
             try {
                 const data = JSON.parse(readFileSync(keyPairPath, 'utf-8'));
                 return {
-                    publicKey: Buffer.from(data.publicKey, 'base64'),
-                    secretKey: Buffer.from(data.secretKey, 'base64')
+                    current: {
+                        publicKey: Buffer.from(data.publicKey, 'base64'),
+                        secretKey: Buffer.from(data.secretKey, 'base64')
+                    },
+                    previous: ((data.previous || []) as Array<{ publicKey: string; secretKey: string; retiresAt: number }>)
+                        .filter(k => k.retiresAt > Date.now())
+                        .map(k => ({
+                            publicKey: Buffer.from(k.publicKey, 'base64'),
+                            secretKey: Buffer.from(k.secretKey, 'base64'),
+                            retiresAt: k.retiresAt
+                        }))
                 };
             } catch {
                 // Fall through to create new
             }
         }
 
+        return null;
+    }
+
+    /**
+     * Create and save a new keypair
+     */
+    private createKeyPair(): KeyPair {
+        const keyPairPath = join(this.dataDir, 'dht-keypair.json');
+
         // Create new keypair
         const keyPair = DHT.keyPair(randomBytes(32));
 
@@ -80,7 +171,7 @@ export class DhtServer {
         writeFileSync(keyPairPath, JSON.stringify({
             publicKey: keyPair.publicKey.toString('base64'),
             secretKey: keyPair.secretKey.toString('base64')
-        }, null, 2));
+        }, null, 2), { mode: 0o600 });
 
         return keyPair;
     }
@@ -89,11 +180,15 @@ export class DhtServer {
      * Start the DHT server
      */
     async start(): Promise<void> {
-        this.server = this.dht.createServer((socket) => {
-            this.handleConnection(socket);
-        });
+        this.server = await this.listen(this.keyPair);
+
+        // Keep accepting clients that still know a rotated-out key
+        for (const previous of this.previousKeyPairs) {
+            this.retiringServers.push({ server: await this.listen(previous), retiresAt: previous.retiresAt });
+        }
 
-        await this.server.listen(this.keyPair);
+        // Pick up `p2p-claude rotate-keys`
+        watchFile(join(this.dataDir, 'dht-keypair.json'), { interval: 2000 }, this.onKeyPairFileChange);
 
         // Initialize network signature for change detection
         this.lastNetworkSignature = this.getNetworkSignature();
@@ -107,6 +202,69 @@ export class DhtServer {
         console.log('[DHT] Server started with auto-refresh enabled');
     }
 
+    /**
+     * Create a server listening on a keypair
+     */
+    private async listen(keyPair: KeyPair): Promise<Server> {
+        const serverPublicKey = keyPair.publicKey.toString('base64');
+        const server = this.dht.createServer({
+            // Refuse revoked devices before the connection is established
+            firewall: (remotePublicKey) => this.clients.isRevoked(remotePublicKey.toString('base64'))
+        }, (socket) => {
+            this.handleConnection(socket, serverPublicKey);
+        });
+
+        await server.listen(keyPair);
+        return server;
+    }
+
+    private onKeyPairFileChange = () => {
+        this.reloadKeyPair().catch(error => {
+            console.error('[DHT] Failed to reload keypair:', error);
+        });
+    };
+
+    /**
+     * Switch to a rotated keypair, keeping the old one listening until it retires
+     */
+    private async reloadKeyPair(): Promise<void> {
+        const keyPairs = this.loadKeyPairs();
+        if (!keyPairs || keyPairs.current.publicKey.equals(this.keyPair.publicKey)) {
+            return;
+        }
+
+        const oldPublicKey = this.keyPair.publicKey;
+        const retiresAt = keyPairs.previous.find(k => k.publicKey.equals(oldPublicKey))?.retiresAt;
+
+        const server = await this.listen(keyPairs.current);
+        if (this.server && retiresAt) {
+            this.retiringServers.push({ server: this.server, retiresAt });
+        } else if (this.server) {
+            await this.server.close();
+        }
+
+        this.server = server;
+        this.keyPair = keyPairs.current;
+        this.previousKeyPairs = keyPairs.previous;
+
+        console.log(`[DHT] Keypair rotated, new public key: ${this.getPublicKeyBase64()}`);
+        this.announceRekey();
+    }
+
+    /**
+     * Close servers for keypairs whose grace window has ended
+     */
+    private closeRetiredServers(): void {
+        const now = Date.now();
+        const retired = this.retiringServers.filter(s => s.retiresAt <= now);
+        this.retiringServers = this.retiringServers.filter(s => s.retiresAt > now);
+
+        for (const { server } of retired) {
+            server.close().catch(() => {});
+            console.log('[DHT] Closed server for retired keypair');
+        }
+    }
+
     /**
      * Start periodic refresh timer
      */
@@ -116,6 +274,7 @@ export class DhtServer {
         }
 
         this.refreshTimer = setInterval(() => {
+            this.closeRetiredServers();
             this.refresh();
         }, this.refreshInterval);
     }
@@ -163,21 +322,48 @@ export class DhtServer {
      * Call this when network conditions change (IP change, reconnect, etc.)
      */
     refresh(): void {
-        if (this.server) {
+        const servers = [this.server, ...this.retiringServers.map(s => s.server)];
+        for (const server of servers) {
+            if (!server) continue;
             try {
-                this.server.refresh();
-                console.log('[DHT] Server refreshed');
+                server.refresh();
             } catch (error) {
                 console.error('[DHT] Refresh error:', error);
             }
         }
+        if (this.server) {
+            console.log('[DHT] Server refreshed');
+        }
     }
 
     /**
      * Handle incoming DHT connection
      */
-    private handleConnection(socket: ReturnType<InstanceType<typeof DHT>['connect']>): void {
+    private handleConnection(socket: Socket, serverPublicKey: string): void {
         let buffer = '';
+        const closeCallbacks: Array<() => void> = [];
+
+        const state: ConnectionState = {
+            socket,
+            remotePublicKey: socket.remotePublicKey.toString('base64'),
+            serverPublicKey,
+            keyId: this.encryption.getCurrentKeyId(),
+            lastRequestCounter: 0,
+            sendCounter: 0
+        };
+
+        const connection: RpcConnection = {
+            id: randomUUID(),
+            remotePublicKey: state.remotePublicKey,
+            sendEvent: (event: string, data: unknown) => {
+                this.writeEvent(state, event, data);
+            },
+            onClose: (callback: () => void) => {
+                closeCallbacks.push(callback);
+            }
+        };
+
+        this.connections.set(connection.id, state);
 
         socket.on('data', async (chunk: Buffer) => {
             buffer += chunk.toString('utf8');
@@ -192,17 +378,18 @@ export class DhtServer {
 
                 if (!line) continue;
 
+                let frame: RpcRequest | HandshakeRequest;
                 try {
-                    const request = JSON.parse(line) as RpcRequest;
-                    const response = await this.handleRequest(request);
-                    socket.write(JSON.stringify(response) + '\n');
+                    frame = JSON.parse(line) as RpcRequest | HandshakeRequest;
                 } catch (error) {
-                    const errorResponse: RpcResponse = {
-                        id: 'unknown',
-                        ok: false,
-                        error: error instanceof Error ? error.message : 'Parse error'
-                    };
-                    socket.write(JSON.stringify(errorResponse) + '\n');
+                    this.writeError(state, 'unknown', new RpcError('INVALID_REQUEST', error instanceof Error ? error.message : 'Parse error'));
+                    continue;
+                }
+
+                if ('handshake' in frame) {
+                    this.handleHandshake(frame, state);
+                } else {
+                    await this.handleRequest(frame, connection, state);
                 }
             }
         });
@@ -210,31 +397,219 @@ export class DhtServer {
         socket.on('error', () => {
             // Expected when client disconnects - don't log
         });
+
+        socket.on('close', () => {
+            this.connections.delete(connection.id);
+            for (const callback of closeCallbacks) {
+                callback();
+            }
+            closeCallbacks.length = 0;
+        });
     }
 
     /**
-     * Handle RPC request
+     * Key exchange at connection start (and again after invite pairing)
+     * The hello is encrypted with the data key or invite secret, which
+     * authenticates it; traffic then uses keys derived from fresh X25519 keys,
+     * so a leaked long-term key does not decrypt earlier connections
      */
-    private async handleRequest(request: RpcRequest): Promise<RpcResponse> {
+    private handleHandshake(request: HandshakeRequest, state: ConnectionState): void {
+        const reply = (response: HandshakeResponse) => {
+            if (!state.socket.destroyed) {
+                state.socket.write(JSON.stringify(response) + '\n');
+            }
+        };
+
         try {
-            // Decrypt params
-            const params = this.encryption.decrypt(request.params);
+            let encryption = this.encryption;
+            let keyId = this.encryption.keyIdOf(request.handshake);
+            if (request.invite) {
+                const inviteEncryption = this.getInviteEncryption(request.invite);
+                if (!inviteEncryption) {
+                    throw new Error('Invite is invalid, expired or already used');
+                }
+                encryption = inviteEncryption;
+                keyId = 0;
+            }
+
+            const hello = encryption.decrypt<HandshakeHello>(request.handshake);
+            if (typeof hello.ts !== 'number' || Math.abs(Date.now() - hello.ts) > MAX_CLOCK_SKEW_MS) {
+                throw new Error('Handshake timestamp is outside the allowed window');
+            }
+
+            const ephemeral = createEphemeralKey();
+            const keys = deriveSessionKeys(
+                ephemeral.privateKey,
+                hello.publicKey,
+                encryption.getKeyBase64(keyId),
+                hello.publicKey,
+                ephemeral.publicKey
+            );
+
+            const serverHello: HandshakeHello = { publicKey: ephemeral.publicKey, peerPublicKey: hello.publicKey, ts: Date.now() };
+            reply({ handshake: encryption.encrypt(serverHello, keyId) });
+
+            // Everything after the reply uses the new keys
+            state.session = {
+                receive: new Encryption(keys.clientToServer),
+                send: new Encryption(keys.serverToClient),
+                inviteId: request.invite
+            };
+            state.lastRequestCounter = 0;
+            state.sendCounter = 0;
+
+            // Hand the new long-term key to a client that connected with an old one
+            if (!request.invite) {
+                state.keyId = keyId;
+                this.sendRekey(state);
+            }
+        } catch (error) {
+            reply({ error: error instanceof Error ? error.message : 'Handshake failed' });
+        }
+    }
+
+    /**
+     * Handle RPC request and write the response
+     */
+    private async handleRequest(request: RpcRequest, connection: RpcConnection, state: ConnectionState): Promise<void> {
+        try {
+            const session = state.session;
+            if (!session) {
+                throw new RpcError('INVALID_REQUEST', 'Handshake required');
+            }
+
+            // Unpaired devices may only pair, and an invite session only allows pairing
+            if (request.method !== PAIR_METHOD && (session.inviteId || !this.clients.isAuthorized(connection.remotePublicKey))) {
+                throw new RpcError('UNAUTHORIZED', 'Unauthorized: this device is not paired');
+            }
+
+            // Decrypt params and reject replays
+            const params = this.openRequest(request, session.receive.decrypt<SealedRequest>(request.params), state);
 
             // Call handler
-            const result = await this.onRequest(request.method, params);
+            const auth: RequestAuth = { inviteId: session.inviteId };
+            const result = await this.onRequest(request.method, params, connection, auth);
 
             // Encrypt result
-            return {
-                id: request.id,
-                ok: true,
-                result: this.encryption.encrypt(result)
-            };
+            this.writeResponse(state, request.id, result);
         } catch (error) {
-            return {
-                id: request.id,
-                ok: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            };
+            this.writeError(state, request.id, RpcError.from(error));
+        }
+    }
+
+    /**
+     * Check that a decrypted request matches its envelope and is not a replay
+     * Returns the request params
+     */
+    private openRequest(request: RpcRequest, sealed: SealedRequest, state: ConnectionState): unknown {
+        if (sealed.id !== request.id || sealed.method !== request.method) {
+            throw new RpcError('INVALID_REQUEST', 'Request envelope does not match its encrypted contents');
+        }
+
+        const now = Date.now();
+        if (typeof sealed.ts !== 'number' || Math.abs(now - sealed.ts) > MAX_CLOCK_SKEW_MS) {
+            throw new RpcError('INVALID_REQUEST', 'Request timestamp is outside the allowed window');
+        }
+        if (typeof sealed.counter !== 'number' || sealed.counter <= state.lastRequestCounter) {
+            throw new RpcError('INVALID_REQUEST', 'Duplicate or out-of-order request');
+        }
+
+        // Ids outlive the timestamp window, so a request replayed on a new connection is caught here
+        for (const [id, forgetAt] of this.seenRequestIds) {
+            if (forgetAt > now) break;
+            this.seenRequestIds.delete(id);
+        }
+        if (this.seenRequestIds.has(sealed.id)) {
+            throw new RpcError('INVALID_REQUEST', 'Duplicate request');
+        }
+
+        this.seenRequestIds.set(sealed.id, now + 2 * MAX_CLOCK_SKEW_MS);
+        state.lastRequestCounter = sealed.counter;
+        return sealed.params;
+    }
+
+    /**
+     * Write a successful response; counters are assigned at write time so they
+     * reach the client in order
+     */
+    private writeResponse(state: ConnectionState, id: string, result: unknown): void {
+        if (state.socket.destroyed || !state.session) return;
+        const sealed: SealedResponse = { id, ts: Date.now(), counter: ++state.sendCounter, result };
+        const response: RpcResponse = { id, ok: true, result: state.session.send.encrypt(sealed) };
+        state.socket.write(JSON.stringify(response) + '\n');
+    }
+
+    /**
+     * Write a failed response, sealed like a result once the connection has
+     * keys (before the handshake there is nothing to seal it with)
+     */
+    private writeError(state: ConnectionState, id: string, error: RpcError): void {
+        if (state.socket.destroyed) return;
+        let response: RpcResponse;
+        if (state.session) {
+            const sealed: SealedResponse = { id, ts: Date.now(), counter: ++state.sendCounter, error: error.toInfo() };
+            response = { id, ok: false, result: state.session.send.encrypt(sealed) };
+        } else {
+            response = { id, ok: false, error: error.toInfo() };
+        }
+        state.socket.write(JSON.stringify(response) + '\n');
+    }
+
+    /**
+     * Send the current data key and DHT public key to every connected,
+     * authorized client that is still using older ones
+     */
+    announceRekey(): void {
+        for (const state of this.connections.values()) {
+            this.sendRekey(state);
+        }
+    }
+
+    /**
+     * Send an event frame, encrypted with the connection's session key
+     */
+    private writeEvent(state: ConnectionState, event: string, data: unknown): void {
+        if (state.socket.destroyed || !state.session) return;
+        const sealed: SealedEvent = { event, ts: Date.now(), counter: ++state.sendCounter, data };
+        const frame: RpcEvent = {
+            event,
+            data: state.session.send.encrypt(sealed)
+        };
+        state.socket.write(JSON.stringify(frame) + '\n');
+    }
+
+    /**
+     * Send a 'rekey' event if the client is behind and has not been told yet
+     */
+    private sendRekey(state: ConnectionState): void {
+        const currentKeyId = this.encryption.getCurrentKeyId();
+        const dhtPublicKey = this.getPublicKeyBase64();
+        const generation = `${currentKeyId}:${dhtPublicKey}`;
+
+        const behind = state.keyId !== currentKeyId || state.serverPublicKey !== dhtPublicKey;
+        if (!behind || state.rekeyedTo === generation || !this.clients.isAuthorized(state.remotePublicKey)) {
+            return;
+        }
+
+        const event: RekeyEvent = {
+            keyId: currentKeyId,
+            dataKey: this.encryption.getKeyBase64(),
+            dhtPublicKey
+        };
+        this.writeEvent(state, 'rekey', event);
+        state.rekeyedTo = generation;
+    }
+
+    /**
+     * Close connections from devices that have been revoked
+     */
+    disconnectRevoked(): void {
+        for (const [id, { socket, remotePublicKey }] of this.connections) {
+            if (this.clients.isRevoked(remotePublicKey)) {
+                console.log(`[DHT] Disconnecting revoked client ${remotePublicKey.slice(0, 12)}...`);
+                socket.destroy();
+                this.connections.delete(id);
+            }
         }
     }
 
@@ -261,7 +636,13 @@ export class DhtServer {
             this.networkCheckTimer = null;
         }
 
-        // Close server
+        unwatchFile(join(this.dataDir, 'dht-keypair.json'), this.onKeyPairFileChange);
+
+        // Close servers
+        for (const { server } of this.retiringServers) {
+            await server.close();
+        }
+        this.retiringServers = [];
         if (this.server) {
             await this.server.close();
             console.log('[DHT] Server closed');
@@ -299,7 +680,7 @@ export class DhtServer {
      * Retrieve session state from the DHT
      * Returns null if no state found or on error
      */
-    async getSessionState(): Promise<{ sessions: SessionState[]; updatedAt: number } | null> {
+    async getSessionState(): Promise<GetSessionStateResult> {
         try {
             const result = await this.dht.mutableGet(this.keyPair.publicKey, { latest: true });
 
@@ -356,3 +737,34 @@ export class DhtServer {
         }
     }
 }
+
+/**
+ * Generate a new DHT keypair for `p2p-claude rotate-keys`
+ * The old keypair stays listed (and listened on by the daemon) until the grace window ends
+ */
+export function rotateKeyPairFile(dataDir: string, graceMs: number): string {
+    const keyPairPath = join(dataDir, 'dht-keypair.json');
+    if (!existsSync(keyPairPath)) {
+        throw new Error('No DHT keypair to rotate. Run `p2p-claude daemon` first.');
+    }
+
+    const data = JSON.parse(readFileSync(keyPairPath, 'utf-8'));
+    const now = Date.now();
+    const keyPair = DHT.keyPair(randomBytes(32));
+
+    const previous = [
+        ...((data.previous || []) as Array<{ retiresAt: number }>).filter(k => k.retiresAt > now),
+        { publicKey: data.publicKey, secretKey: data.secretKey, retiresAt: now + graceMs }
+    ];
+
+    // Written as a new file, so it is mode 0600 even if the old one was not
+    const tmpPath = `${keyPairPath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify({
+        publicKey: keyPair.publicKey.toString('base64'),
+        secretKey: keyPair.secretKey.toString('base64'),
+        previous
+    }, null, 2), { mode: 0o600 });
+    renameSync(tmpPath, keyPairPath);
+
+    return keyPair.publicKey.toString('base64');
+}
@@ -0,0 +1,125 @@
+/**
+ * Short-lived pairing invites
+ *
+ * `p2p-claude pair` mints an invite and prints a v2 pairing URL carrying only
+ * the invite id and secret. A new device uses the secret to encrypt its `pair`
+ * request and receives the data key in the reply, so the permanent key is
+ * never printed. Invites expire and are limited to a number of uses.
+ */
+
+import { randomBytes, randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Invite, PairingMetadata, PairingPayloadV2 } from '../types.js';
+
+export interface CreateInviteOptions {
+    ttlMs?: number; // Default 10 minutes
+    maxUses?: number; // Default 1
+    confirm?: boolean; // Require operator approval on the daemon
+}
+
+const DEFAULT_INVITE_TTL_MS = 10 * 60 * 1000;
+
+export class InviteStore {
+    private filePath: string;
+
+    constructor(dataDir: string) {
+        this.filePath = join(dataDir, 'invites.json');
+
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true });
+        }
+    }
+
+    /**
+     * Read invites from disk; the file is shared with the `pair` command
+     */
+    private load(): Invite[] {
+        if (!existsSync(this.filePath)) {
+            return [];
+        }
+
+        try {
+            const data = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+            return (data.invites || []) as Invite[];
+        } catch (error) {
+            console.error('[Invites] Failed to load invites:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Write invites, dropping expired and used-up ones
+     */
+    private save(invites: Invite[]): void {
+        const now = Date.now();
+        const live = invites.filter(invite => invite.expiresAt > now && invite.uses < invite.maxUses);
+
+        const tmpPath = `${this.filePath}.tmp`;
+        writeFileSync(tmpPath, JSON.stringify({ invites: live }, null, 2), { mode: 0o600 });
+        renameSync(tmpPath, this.filePath);
+    }
+
+    create(options: CreateInviteOptions = {}): Invite {
+        const now = Date.now();
+        const invite: Invite = {
+            id: randomUUID(),
+            secret: randomBytes(32).toString('base64'),
+            createdAt: now,
+            expiresAt: now + (options.ttlMs ?? DEFAULT_INVITE_TTL_MS),
+            maxUses: options.maxUses ?? 1,
+            uses: 0,
+            confirm: options.confirm ?? false
+        };
+
+        this.save([...this.load(), invite]);
+        return invite;
+    }
+
+    /**
+     * Get an invite that can still be used
+     */
+    get(inviteId: string): Invite | undefined {
+        const invite = this.load().find(i => i.id === inviteId);
+        if (!invite || invite.expiresAt <= Date.now() || invite.uses >= invite.maxUses) {
+            return undefined;
+        }
+        return invite;
+    }
+
+    /**
+     * Count one use of an invite
+     * Returns false if it expired or was used up in the meantime
+     */
+    consume(inviteId: string): boolean {
+        const invites = this.load();
+        const invite = invites.find(i => i.id === inviteId);
+        if (!invite || invite.expiresAt <= Date.now() || invite.uses >= invite.maxUses) {
+            return false;
+        }
+
+        invite.uses++;
+        this.save(invites);
+        return true;
+    }
+}
+
+/**
+ * Build a v2 pairing URL for an invite
+ */
+export function buildInviteUrl(dhtPublicKey: string, invite: Invite, metadata: PairingMetadata): string {
+    const payload: PairingPayloadV2 = {
+        v: 2,
+        dhtPublicKey,
+        invite: {
+            id: invite.id,
+            secret: invite.secret,
+            expiresAt: invite.expiresAt,
+            confirm: invite.confirm
+        },
+        metadata
+    };
+
+    const code = Buffer.from(JSON.stringify(payload)).toString('base64');
+    return `p2p-claude://connect?code=${code}`;
+}
@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+/**
+ * Minimal MCP server (stdio) used as Claude's --permission-prompt-tool
+ *
+ * Claude launches this per session. Its single tool forwards each permission
+ * prompt to the daemon's PermissionBroker over a local socket and returns the
+ * remote user's decision.
+ */
+
+import { connect } from 'node:net';
+import { readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+
+const socketPath = process.env.P2P_CLAUDE_PERMISSION_SOCKET;
+const sessionId = process.env.P2P_CLAUDE_SESSION_ID;
+const token = readToken(process.env.P2P_CLAUDE_PERMISSION_TOKEN_FILE);
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method?: string;
+    params?: Record<string, unknown>;
+}
+
+const TOOL = {
+    name: 'approve',
+    description: 'Ask the remote P2P user to approve a tool call',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            tool_name: { type: 'string' },
+            input: { type: 'object' },
+            tool_use_id: { type: 'string' }
+        },
+        required: ['tool_name', 'input']
+    }
+};
+
+/**
+ * The session's token, from the file the daemon wrote for it
+ */
+function readToken(path: string | undefined): string | undefined {
+    if (!path) return undefined;
+    try {
+        return readFileSync(path, 'utf-8').trim();
+    } catch {
+        return undefined;
+    }
+}
+
+function send(message: object): void {
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+/**
+ * Forward a permission prompt to the daemon and wait for the decision
+ */
+function askDaemon(toolName: string, input: unknown): Promise<object> {
+    return new Promise((resolve) => {
+        if (!socketPath || !sessionId || !token) {
+            resolve({ behavior: 'deny', message: 'P2P permission broker is not configured' });
+            return;
+        }
+
+        const socket = connect(socketPath);
+        let buffer = '';
+
+        socket.on('connect', () => {
+            socket.write(JSON.stringify({ sessionId, token, toolName, input }) + '\n');
+        });
+
+        socket.on('data', (chunk: Buffer) => {
+            buffer += chunk.toString('utf8');
+        });
+
+        socket.on('end', () => {
+            try {
+                resolve(JSON.parse(buffer.trim()));
+            } catch {
+                resolve({ behavior: 'deny', message: 'Invalid reply from P2P daemon' });
+            }
+        });
+
+        socket.on('error', (err) => {
+            resolve({ behavior: 'deny', message: `P2P daemon unreachable: ${err.message}` });
+        });
+    });
+}
+
+async function handleMessage(message: JsonRpcMessage): Promise<void> {
+    // Notifications need no reply
+    if (message.id === undefined) return;
+
+    switch (message.method) {
+        case 'initialize':
+            send({
+                id: message.id,
+                result: {
+                    protocolVersion: message.params?.protocolVersion ?? '2024-11-05',
+                    capabilities: { tools: {} },
+                    serverInfo: { name: 'p2p-claude-permissions', version: '0.1.0' }
+                }
+            });
+            return;
+
+        case 'ping':
+            send({ id: message.id, result: {} });
+            return;
+
+        case 'tools/list':
+            send({ id: message.id, result: { tools: [TOOL] } });
+            return;
+
+        case 'tools/call': {
+            const args = (message.params?.arguments || {}) as { tool_name?: string; input?: unknown };
+            const reply = await askDaemon(args.tool_name || 'unknown', args.input ?? {});
+            send({
+                id: message.id,
+                result: { content: [{ type: 'text', text: JSON.stringify(reply) }] }
+            });
+            return;
+        }
+
+        default:
+            send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+    }
+}
+
+const rl = createInterface({ input: process.stdin });
+rl.on('line', (line) => {
+    if (!line.trim()) return;
+    try {
+        handleMessage(JSON.parse(line) as JsonRpcMessage);
+    } catch {
+        // Ignore malformed input
+    }
+});
+rl.on('close', () => process.exit(0));
@@ -0,0 +1,297 @@
+/**
+ * Tool permission broker
+ *
+ * Each Claude session is started with --permission-prompt-tool pointing at a
+ * small MCP server (permission-mcp.ts). That server forwards every permission
+ * prompt to this broker over a local socket, and the broker waits until a
+ * remote client answers it with answer-permission. The stub proves which
+ * session it serves with a per-session token, which it reads from a file only
+ * the daemon's user can read (command lines are visible to other users).
+ */
+
+import { createServer, type Server, type Socket } from 'node:net';
+import { randomBytes, randomUUID } from 'node:crypto';
+import { existsSync, unlinkSync, chmodSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PermissionDecision, PermissionRequest } from '../types.js';
+
+// Unanswered requests are denied after this long
+const PERMISSION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// MCP server name and tool, as seen by Claude
+const MCP_SERVER_NAME = 'p2p';
+const MCP_TOOL_NAME = 'approve';
+
+/**
+ * Reply sent back to Claude by the permission prompt tool
+ */
+export type PermissionReply =
+    | { behavior: 'allow'; updatedInput: unknown }
+    | { behavior: 'deny'; message: string };
+
+/**
+ * Request forwarded by the MCP stub over the local socket
+ */
+interface StubRequest {
+    sessionId: string;
+    token: string;
+    toolName: string;
+    input: unknown;
+}
+
+interface PendingPermission {
+    request: PermissionRequest;
+    resolve: (reply: PermissionReply) => void;
+    timeoutId: NodeJS.Timeout;
+}
+
+export interface PermissionBrokerOptions {
+    dataDir: string;
+    onRequest: (request: PermissionRequest) => void;
+    onResolved: (request: PermissionRequest, decision: PermissionDecision) => void;
+}
+
+/**
+ * Settings to pass to spawnClaudeSession so it uses the broker
+ */
+export interface PermissionPromptConfig {
+    mcpConfig: object;
+    permissionPromptTool: string;
+}
+
+export class PermissionBroker {
+    private server: Server | null = null;
+    private socketPath: string;
+    private tokenDir: string;
+    private tokens = new Map<string, string>(); // sessionId -> secret passed to the stub
+    private alwaysAllowed = new Map<string, Set<string>>(); // sessionId -> tool names
+    private pending = new Map<string, PendingPermission>();
+    private onRequest: PermissionBrokerOptions['onRequest'];
+    private onResolved: PermissionBrokerOptions['onResolved'];
+
+    constructor(options: PermissionBrokerOptions) {
+        this.onRequest = options.onRequest;
+        this.onResolved = options.onResolved;
+        this.socketPath = process.platform === 'win32'
+            ? `\\\\.\\pipe\\p2p-claude-permission-${process.pid}`
+            : join(options.dataDir, 'permission.sock');
+        this.tokenDir = join(options.dataDir, 'permission-tokens');
+    }
+
+    /**
+     * Start listening for the MCP stubs
+     */
+    async start(): Promise<void> {
+        // Remove a stale socket left by a crashed daemon
+        if (process.platform !== 'win32' && existsSync(this.socketPath)) {
+            unlinkSync(this.socketPath);
+        }
+
+        // Tokens of sessions from a previous run are no longer valid
+        rmSync(this.tokenDir, { recursive: true, force: true });
+        mkdirSync(this.tokenDir, { recursive: true, mode: 0o700 });
+
+        this.server = createServer((socket) => this.handleConnection(socket));
+
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(this.socketPath, () => {
+                this.server!.off('error', reject);
+                resolve();
+            });
+        });
+
+        if (process.platform !== 'win32') {
+            chmodSync(this.socketPath, 0o600);
+        }
+    }
+
+    /**
+     * Stop listening and deny everything still pending
+     */
+    async stop(): Promise<void> {
+        for (const requestId of this.pending.keys()) {
+            this.resolve(requestId, 'deny', 'Daemon shutting down');
+        }
+
+        if (this.server) {
+            await new Promise<void>(resolve => this.server!.close(() => resolve()));
+            this.server = null;
+        }
+
+        rmSync(this.tokenDir, { recursive: true, force: true });
+    }
+
+    /**
+     * Register a session and get the Claude settings that route its
+     * permission prompts through the broker
+     */
+    registerSession(sessionId: string): PermissionPromptConfig {
+        const token = randomBytes(32).toString('base64');
+        this.tokens.set(sessionId, token);
+
+        // Replaced rather than overwritten, so the file is always created with mode 0600
+        const tokenPath = this.getTokenPath(sessionId);
+        rmSync(tokenPath, { force: true });
+        writeFileSync(tokenPath, token, { mode: 0o600 });
+
+        const stubPath = fileURLToPath(new URL('./permission-mcp.js', import.meta.url));
+
+        return {
+            mcpConfig: {
+                mcpServers: {
+                    [MCP_SERVER_NAME]: {
+                        command: process.execPath,
+                        args: [stubPath],
+                        env: {
+                            P2P_CLAUDE_PERMISSION_SOCKET: this.socketPath,
+                            P2P_CLAUDE_SESSION_ID: sessionId,
+                            P2P_CLAUDE_PERMISSION_TOKEN_FILE: tokenPath
+                        }
+                    }
+                }
+            },
+            permissionPromptTool: `mcp__${MCP_SERVER_NAME}__${MCP_TOOL_NAME}`
+        };
+    }
+
+    /**
+     * Forget a session, denying its pending requests
+     */
+    unregisterSession(sessionId: string): void {
+        this.tokens.delete(sessionId);
+        this.alwaysAllowed.delete(sessionId);
+        rmSync(this.getTokenPath(sessionId), { force: true });
+
+        for (const [requestId, { request }] of this.pending) {
+            if (request.sessionId === sessionId) {
+                this.resolve(requestId, 'deny', 'Session ended');
+            }
+        }
+    }
+
+    private getTokenPath(sessionId: string): string {
+        return join(this.tokenDir, `${sessionId}.token`);
+    }
+
+    /**
+     * Pending requests for a session (re-sent to clients that subscribe late)
+     */
+    listPending(sessionId: string): PermissionRequest[] {
+        return Array.from(this.pending.values())
+            .map(({ request }) => request)
+            .filter(request => request.sessionId === sessionId);
+    }
+
+    /**
+     * Get a pending request by id
+     */
+    getPending(requestId: string): PermissionRequest | undefined {
+        return this.pending.get(requestId)?.request;
+    }
+
+    /**
+     * Answer a pending request
+     * Returns false if the request is unknown or was already answered
+     */
+    answer(requestId: string, decision: PermissionDecision, message?: string): boolean {
+        const pending = this.pending.get(requestId);
+        if (!pending) {
+            return false;
+        }
+
+        if (decision === 'allow-always') {
+            const { sessionId, toolName } = pending.request;
+            const tools = this.alwaysAllowed.get(sessionId) || new Set<string>();
+            tools.add(toolName);
+            this.alwaysAllowed.set(sessionId, tools);
+        }
+
+        this.resolve(requestId, decision, message);
+        return true;
+    }
+
+    private resolve(requestId: string, decision: PermissionDecision, message?: string): void {
+        const pending = this.pending.get(requestId);
+        if (!pending) {
+            return;
+        }
+
+        this.pending.delete(requestId);
+        clearTimeout(pending.timeoutId);
+
+        pending.resolve(decision === 'deny'
+            ? { behavior: 'deny', message: message || 'Denied by remote user' }
+            : { behavior: 'allow', updatedInput: pending.request.input });
+
+        this.onResolved(pending.request, decision);
+    }
+
+    /**
+     * Handle a permission prompt forwarded by an MCP stub
+     */
+    private handleConnection(socket: Socket): void {
+        let buffer = '';
+
+        socket.on('data', (chunk: Buffer) => {
+            buffer += chunk.toString('utf8');
+
+            const newlineIndex = buffer.indexOf('\n');
+            if (newlineIndex === -1) return;
+
+            const line = buffer.slice(0, newlineIndex);
+            buffer = '';
+
+            let stubRequest: StubRequest;
+            try {
+                stubRequest = JSON.parse(line) as StubRequest;
+            } catch {
+                socket.destroy();
+                return;
+            }
+
+            this.handleStubRequest(stubRequest).then((reply) => {
+                if (!socket.destroyed) {
+                    socket.end(JSON.stringify(reply) + '\n');
+                }
+            });
+        });
+
+        socket.on('error', () => {
+            // Stub exited (e.g. Claude was killed) - nothing to answer
+        });
+    }
+
+    private async handleStubRequest(stubRequest: StubRequest): Promise<PermissionReply> {
+        const { sessionId, token, toolName, input } = stubRequest;
+
+        if (!token || this.tokens.get(sessionId) !== token) {
+            console.log(`[Permission] Rejected request with invalid token for session ${sessionId}`);
+            return { behavior: 'deny', message: 'Unauthorized permission request' };
+        }
+
+        if (this.alwaysAllowed.get(sessionId)?.has(toolName)) {
+            return { behavior: 'allow', updatedInput: input };
+        }
+
+        const request: PermissionRequest = {
+            requestId: randomUUID(),
+            sessionId,
+            toolName,
+            input,
+            createdAt: Date.now()
+        };
+
+        console.log(`[Permission] ${sessionId} requests ${toolName}`);
+
+        return new Promise<PermissionReply>((resolve) => {
+            const timeoutId = setTimeout(() => {
+                this.resolve(request.requestId, 'deny', 'Permission request timed out');
+            }, PERMISSION_TIMEOUT_MS);
+
+            this.pending.set(request.requestId, { request, resolve, timeoutId });
+            this.onRequest(request);
+        });
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * Role-based access control for paired devices
+ *
+ * policy.json in the data directory maps devices (by name or public key) to
+ * roles. Each role lists the RPC methods it may call and, optionally, the
+ * directories, permission modes and models it may spawn sessions with.
+ * Without a policy file every paired device has full access.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { isWithin } from './sandbox.js';
+import type { AccessPolicyFile, AuthorizedClient, PermissionMode, RoleDefinition } from '../types.js';
+
+// Methods that only read session state
+const VIEWER_METHODS = [
+    'list-sessions',
+    'list-resumable-sessions',
+    'get-output',
+    'subscribe-session',
+    'unsubscribe-session',
+    'get-session-state',
+    'get-usage',
+    'export-transcript',
+    'ping'
+];
+
+export const BUILTIN_ROLES: Record<string, RoleDefinition> = {
+    viewer: {
+        methods: VIEWER_METHODS
+    },
+    operator: {
+        methods: [...VIEWER_METHODS, 'spawn-session', 'resume-session', 'send-message', 'interrupt-session', 'configure-session', 'answer-permission', 'stop-session'],
+        permissionModes: ['default', 'acceptEdits', 'plan']
+    },
+    admin: {
+        methods: ['*'],
+        allSessions: true
+    }
+};
+
+// Role for devices not listed in the policy file
+const DEFAULT_ROLE = 'viewer';
+
+/**
+ * What a request is trying to do, for checking against a role
+ */
+export interface AccessRequest {
+    method: string;
+    directory?: string; // Session working directory
+    permissionMode?: PermissionMode;
+    model?: string;
+    sessionOwner?: string; // Public key of the device that spawned the session
+}
+
+export class AccessPolicy {
+    private filePath: string;
+    private policy: AccessPolicyFile | null = null;
+    private loadedMtime = 0;
+
+    constructor(dataDir: string) {
+        this.filePath = join(dataDir, 'policy.json');
+        this.load();
+    }
+
+    /**
+     * Load the policy from disk
+     * A corrupt file denies everything rather than falling back to full access
+     */
+    private load(): void {
+        this.policy = null;
+        this.loadedMtime = 0;
+
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+
+        try {
+            this.loadedMtime = statSync(this.filePath).mtimeMs;
+            this.policy = JSON.parse(readFileSync(this.filePath, 'utf-8')) as AccessPolicyFile;
+        } catch (error) {
+            console.error('[Policy] Failed to load policy, denying all requests:', error);
+            this.policy = { defaultRole: 'none', roles: { none: { methods: [] } }, clients: {} };
+        }
+    }
+
+    /**
+     * Pick up edits without restarting the daemon
+     */
+    private reloadIfChanged(): void {
+        const mtime = existsSync(this.filePath) ? statSync(this.filePath).mtimeMs : 0;
+        if (mtime !== this.loadedMtime) {
+            this.load();
+        }
+    }
+
+    /**
+     * Whether a policy file is in effect
+     */
+    isEnabled(): boolean {
+        this.reloadIfChanged();
+        return this.policy !== null;
+    }
+
+    /**
+     * Name of the role a device has (admin when there is no policy file)
+     */
+    roleName(client: AuthorizedClient): string {
+        this.reloadIfChanged();
+        if (!this.policy) {
+            return 'admin';
+        }
+
+        const clients = this.policy.clients || {};
+        return clients[client.publicKey] || clients[client.name] || this.policy.defaultRole || DEFAULT_ROLE;
+    }
+
+    /**
+     * Check a request against the device's role
+     * Returns an error message, or null if the request is allowed
+     */
+    check(client: AuthorizedClient, request: AccessRequest): string | null {
+        const name = this.roleName(client);
+        if (!this.policy) {
+            return null;
+        }
+
+        const role = this.policy.roles?.[name] || BUILTIN_ROLES[name];
+        if (!role) {
+            return `Role ${name} is not defined`;
+        }
+
+        if (!role.methods.includes('*') && !role.methods.includes(request.method)) {
+            return `Role ${name} may not call ${request.method}`;
+        }
+
+        if (request.sessionOwner !== undefined && request.sessionOwner !== client.publicKey && !role.allSessions) {
+            return `Role ${name} may only control its own sessions`;
+        }
+
+        if (request.directory !== undefined && role.directories
+            && !role.directories.some(allowed => isWithin(request.directory!, allowed))) {
+            return `Role ${name} may not use directory ${request.directory}`;
+        }
+
+        if (request.permissionMode !== undefined && role.permissionModes
+            && !role.permissionModes.includes(request.permissionMode)) {
+            return `Role ${name} may not use permission mode ${request.permissionMode}`;
+        }
+
+        if (request.model !== undefined && role.models && !role.models.includes(request.model)) {
+            return `Role ${name} may not use model ${request.model}`;
+        }
+
+        return null;
+    }
+}
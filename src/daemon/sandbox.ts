@@ -0,0 +1,118 @@
+/**
+ * Directory sandbox for Claude sessions
+ *
+ * Sessions may only run inside one of the allowed roots (anywhere, if none
+ * are configured) and never inside a denied directory. Paths are compared
+ * after resolving symlinks, so neither a symlink nor a sibling sharing a
+ * prefix (/home/me/projects-secret next to /home/me/projects) escapes a root.
+ */
+
+import { realpathSync, statSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { homedir } from 'node:os';
+
+// Always denied, in addition to --deny-dir and the daemon's data directory
+export const DEFAULT_DENY_DIRS = ['~/.ssh', '~/.gnupg', '~/.aws', '~/.config/gcloud'];
+
+export interface SandboxOptions {
+    roots?: string[];
+    deny?: string[];
+}
+
+/**
+ * Settings that carry the sandbox into a Claude session
+ */
+export interface SandboxClaudeOptions {
+    addDirs: string[]; // --add-dir
+    settings: object; // --settings
+}
+
+export function expandHome(path: string): string {
+    return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+/**
+ * Absolute path with symlinks resolved
+ * For paths that do not exist yet, the nearest existing parent is resolved
+ */
+export function canonicalPath(path: string): string {
+    const absolute = resolve(expandHome(path));
+    try {
+        return realpathSync.native(absolute);
+    } catch {
+        const parent = dirname(absolute);
+        return parent === absolute ? absolute : join(canonicalPath(parent), basename(absolute));
+    }
+}
+
+/**
+ * Whether a directory is the root or inside it, after resolving symlinks
+ */
+export function isWithin(directory: string, root: string): boolean {
+    const rel = relative(canonicalPath(root), canonicalPath(directory));
+    return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+export class DirectorySandbox {
+    private roots: string[];
+    private deny: string[];
+    private denyRulePaths: string[]; // Denied directories as given and resolved
+
+    constructor(options: SandboxOptions = {}) {
+        const deny = options.deny || [];
+        this.roots = unique((options.roots || []).map(canonicalPath));
+        this.deny = unique(deny.map(canonicalPath));
+        this.denyRulePaths = unique(deny.flatMap(dir => [resolve(expandHome(dir)), canonicalPath(dir)]));
+    }
+
+    getRoots(): string[] {
+        return [...this.roots];
+    }
+
+    getDenied(): string[] {
+        return [...this.deny];
+    }
+
+    /**
+     * Check a session directory
+     * Returns an error message, or null if the directory is allowed
+     */
+    check(directory: string): string | null {
+        try {
+            if (!statSync(expandHome(directory)).isDirectory()) {
+                return `Not a directory: ${directory}`;
+            }
+        } catch {
+            return `Directory does not exist: ${directory}`;
+        }
+
+        if (this.roots.length > 0 && !this.roots.some(root => isWithin(directory, root))) {
+            return `Directory ${directory} is outside the allowed roots: ${this.roots.join(', ')}`;
+        }
+
+        const denied = this.deny.find(dir => isWithin(directory, dir));
+        if (denied) {
+            return `Directory ${directory} is inside denied directory ${denied}`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Let the session reach every root, and deny its file tools the denied
+     * directories (a root may contain one, e.g. ~/.ssh under ~)
+     */
+    claudeOptions(): SandboxClaudeOptions {
+        // Permission rules use //path for absolute paths
+        const denyRules = this.denyRulePaths.flatMap(dir => [`Read(/${dir}/**)`, `Edit(/${dir}/**)`]);
+
+        return {
+            addDirs: this.roots,
+            settings: { permissions: { deny: denyRules } }
+        };
+    }
+}
+
+function unique(paths: string[]): string[] {
+    return Array.from(new Set(paths));
+}
@@ -0,0 +1,88 @@
+/**
+ * Persists session records in the data directory so sessions can be
+ * resumed with Claude's --resume after a daemon restart
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import type { PersistedSession } from '../types.js';
+
+export class SessionStore {
+    private filePath: string;
+    private records = new Map<string, PersistedSession>();
+
+    constructor(dataDir: string) {
+        this.filePath = join(dataDir, 'sessions.json');
+
+        if (!existsSync(dataDir)) {
+            mkdirSync(dataDir, { recursive: true });
+        }
+
+        this.load();
+    }
+
+    /**
+     * Load records from disk, ignoring a missing or corrupt file
+     */
+    private load(): void {
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+
+        try {
+            const data = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+            for (const record of (data.sessions || []) as PersistedSession[]) {
+                this.records.set(record.sessionId, record);
+            }
+        } catch (error) {
+            console.error('[Sessions] Failed to load session records:', error);
+        }
+    }
+
+    /**
+     * Write all records (via a temp file so a crash never leaves a partial file)
+     */
+    private save(): void {
+        const tmpPath = `${this.filePath}.tmp`;
+        writeFileSync(tmpPath, JSON.stringify({
+            sessions: Array.from(this.records.values()),
+            updatedAt: Date.now()
+        }, null, 2));
+        renameSync(tmpPath, this.filePath);
+    }
+
+    get(sessionId: string): PersistedSession | undefined {
+        return this.records.get(sessionId);
+    }
+
+    list(): PersistedSession[] {
+        return Array.from(this.records.values());
+    }
+
+    /**
+     * Create or replace a record
+     */
+    put(record: PersistedSession): void {
+        this.records.set(record.sessionId, record);
+        this.save();
+    }
+
+    /**
+     * Update an existing record; no-op if the session was removed
+     */
+    update(sessionId: string, changes: Partial<PersistedSession>): void {
+        const record = this.records.get(sessionId);
+        if (!record) {
+            return;
+        }
+
+        this.records.set(sessionId, { ...record, ...changes, sessionId });
+        this.save();
+    }
+
+    remove(sessionId: string): void {
+        if (this.records.delete(sessionId)) {
+            this.save();
+        }
+    }
+}
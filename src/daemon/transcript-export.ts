@@ -0,0 +1,386 @@
+/**
+ * Turn a session's log into a readable transcript: Markdown, JSON or HTML
+ *
+ * The transcript has the prompts, Claude's replies, each tool call with its
+ * result (file edits as diffs), the end of every turn and a usage summary.
+ */
+
+import { diffLines, trimContext, type DiffLine } from '../diff.js';
+import { addUsage, emptyUsage, usageFromResult } from './usage.js';
+import type {
+    ContentBlock,
+    SessionEndReason,
+    Transcript,
+    TranscriptFormat,
+    TranscriptItem,
+    TranscriptLogEntry
+} from '../types.js';
+
+// Lines of a tool result kept in Markdown and HTML (JSON keeps everything)
+const MAX_RESULT_LINES = 200;
+
+const END_REASONS: Record<SessionEndReason, string> = {
+    'stopped': 'Session stopped',
+    'exited': 'Claude exited',
+    'idle-timeout': 'Session stopped after being idle',
+    'max-lifetime': 'Session reached its maximum lifetime'
+};
+
+/**
+ * Collect a session's log into a transcript
+ */
+export function buildTranscript(sessionId: string, entries: TranscriptLogEntry[]): Transcript {
+    const transcript: Transcript = {
+        sessionId,
+        directory: '',
+        permissionMode: 'default',
+        startedAt: entries[0]?.ts ?? Date.now(),
+        exportedAt: Date.now(),
+        usage: emptyUsage(),
+        items: []
+    };
+    const tools = new Map<string, Extract<TranscriptItem, { type: 'tool' }>>();
+    let started = false;
+    let processCostUsd = 0; // Running total of the current Claude process, as the daemon tracks it
+
+    for (const entry of entries) {
+        switch (entry.type) {
+            case 'session': {
+                // A new Claude process starts its running cost over (reconfiguring keeps the process)
+                if (!started || entry.resumed) processCostUsd = 0;
+
+                const changes = describeSessionChange(transcript, entry, started);
+                transcript.directory = entry.directory;
+                transcript.permissionMode = entry.permissionMode;
+                transcript.model = entry.model ?? transcript.model;
+                if (changes) transcript.items.push({ type: 'event', ts: entry.ts, text: changes });
+                started = true;
+                break;
+            }
+
+            case 'prompt':
+                transcript.items.push({ type: 'prompt', ts: entry.ts, text: entry.text, sender: entry.sender });
+                break;
+
+            case 'ended':
+                transcript.items.push({ type: 'event', ts: entry.ts, text: END_REASONS[entry.reason] ?? `Session ended (${entry.reason})` });
+                break;
+
+            case 'output': {
+                const { message } = entry;
+                if (message.type === 'system' && message.subtype === 'init' && message.model) {
+                    transcript.model = message.model;
+                }
+
+                const usage = usageFromResult(message, processCostUsd);
+                if (usage) {
+                    processCostUsd = message.total_cost_usd ?? processCostUsd;
+                    transcript.usage = addUsage(transcript.usage, usage);
+                    transcript.items.push({
+                        type: 'turn',
+                        ts: entry.ts,
+                        isError: message.is_error === true || (message.subtype !== undefined && message.subtype !== 'success'),
+                        subtype: message.subtype,
+                        durationMs: message.duration_ms,
+                        turns: message.num_turns,
+                        costUsd: message.total_cost_usd !== undefined ? usage.costUsd : undefined
+                    });
+                }
+
+                const content = message.message?.content;
+                if (!Array.isArray(content)) {
+                    if (message.type === 'assistant' && typeof content === 'string' && content) {
+                        transcript.items.push({ type: 'assistant', ts: entry.ts, text: content });
+                    }
+                    break;
+                }
+
+                for (const block of content) {
+                    if (message.type === 'assistant' && block.type === 'text' && block.text) {
+                        transcript.items.push({ type: 'assistant', ts: entry.ts, text: block.text });
+                    } else if (message.type === 'assistant' && block.type === 'tool_use') {
+                        const tool = { type: 'tool' as const, ts: entry.ts, id: block.id ?? '', name: block.name ?? 'unknown', input: block.input };
+                        tools.set(tool.id, tool);
+                        transcript.items.push(tool);
+                    } else if (block.type === 'tool_result' && block.tool_use_id) {
+                        const tool = tools.get(block.tool_use_id);
+                        if (tool) tool.result = { content: resultText(block.content), isError: block.is_error === true };
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    return transcript;
+}
+
+function describeSessionChange(transcript: Transcript, entry: Extract<TranscriptLogEntry, { type: 'session' }>, started: boolean): string | null {
+    if (!started) return null; // Shown in the header
+    if (entry.resumed) return 'Session resumed';
+
+    const changes: string[] = [];
+    if (entry.model !== undefined && entry.model !== transcript.model) changes.push(`model set to ${entry.model}`);
+    if (entry.permissionMode !== transcript.permissionMode) changes.push(`permission mode set to ${entry.permissionMode}`);
+    return changes.length > 0 ? capitalize(changes.join(', ')) : null;
+}
+
+function resultText(content: ContentBlock['content']): string {
+    if (typeof content === 'string') return content;
+    if (Array.isArray(content)) {
+        return content.map(block => block.type === 'text' ? block.text ?? '' : `[${block.type}]`).join('\n');
+    }
+    return '';
+}
+
+/**
+ * Render a transcript in the given format
+ */
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(transcript, null, 2) + '\n';
+        case 'html':
+            return renderHtml(transcript);
+        default:
+            return renderMarkdown(transcript);
+    }
+}
+
+// ---- Shared helpers ----
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function formatTime(ts: number): string {
+    return new Date(ts).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+// The main argument of a tool call, as the chat shows it
+function toolSummary(input: unknown): string {
+    if (!input || typeof input !== 'object') return String(input ?? '');
+    const fields = input as Record<string, unknown>;
+    for (const key of ['command', 'file_path', 'notebook_path', 'path', 'url', 'pattern', 'query']) {
+        if (typeof fields[key] === 'string') return (fields[key] as string).split('\n')[0];
+    }
+    return '';
+}
+
+// Diff for the file-editing tools, or null for other tools
+function toolDiff(name: string, input: unknown): DiffLine[] | null {
+    const fields = (input || {}) as Record<string, unknown>;
+    const text = (value: unknown) => typeof value === 'string' ? value : '';
+
+    switch (name) {
+        case 'Edit':
+            return trimContext(diffLines(text(fields.old_string), text(fields.new_string)));
+        case 'MultiEdit': {
+            const edits = Array.isArray(fields.edits) ? fields.edits as Array<Record<string, unknown>> : [];
+            return edits.flatMap((edit, index) => [
+                ...(index > 0 ? [{ type: 'skip' as const, text: `edit ${index + 1}` }] : []),
+                ...trimContext(diffLines(text(edit.old_string), text(edit.new_string)))
+            ]);
+        }
+        case 'Write':
+            return diffLines('', text(fields.content));
+        default:
+            return null;
+    }
+}
+
+const DIFF_PREFIX: Record<DiffLine['type'], string> = { add: '+ ', remove: '- ', context: '  ', skip: '⋯ ' };
+
+function diffText(lines: DiffLine[]): string {
+    return lines.map(line => `${DIFF_PREFIX[line.type]}${line.text}`).join('\n');
+}
+
+function truncateLines(text: string): string {
+    const lines = text.split('\n');
+    if (lines.length <= MAX_RESULT_LINES) return text;
+    return [...lines.slice(0, MAX_RESULT_LINES), `… ${lines.length - MAX_RESULT_LINES} more line(s)`].join('\n');
+}
+
+function describeTurn(item: Extract<TranscriptItem, { type: 'turn' }>): string {
+    const details = [
+        item.durationMs !== undefined ? formatDuration(item.durationMs) : null,
+        item.turns !== undefined ? `${item.turns} turn(s)` : null,
+        item.costUsd !== undefined ? `$${item.costUsd.toFixed(4)}` : null
+    ].filter(Boolean).join(' · ');
+    const status = item.isError ? `Turn ended: ${item.subtype || 'error'}` : 'Done';
+    return details ? `${status} · ${details}` : status;
+}
+
+function usageRows(transcript: Transcript): Array<[string, string]> {
+    const { usage } = transcript;
+    return [
+        ['Cost', `$${usage.costUsd.toFixed(4)}`],
+        ['Input tokens', `${usage.inputTokens} (+${usage.cacheCreationTokens} cache write, ${usage.cacheReadTokens} cache read)`],
+        ['Output tokens', `${usage.outputTokens}`],
+        ['Messages', `${usage.messages} (${usage.turns} turns, ${formatDuration(usage.durationMs)})`]
+    ];
+}
+
+function headerRows(transcript: Transcript): Array<[string, string]> {
+    return [
+        ['Session', transcript.sessionId],
+        ['Directory', transcript.directory],
+        ['Model', transcript.model || 'default'],
+        ['Permission mode', transcript.permissionMode],
+        ['Started', formatTime(transcript.startedAt)],
+        ['Exported', formatTime(transcript.exportedAt)]
+    ];
+}
+
+// ---- Markdown ----
+
+// A code fence longer than any backtick run in the text
+function fenced(text: string, language = ''): string {
+    const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function renderMarkdown(transcript: Transcript): string {
+    const out: string[] = [
+        `# Claude session ${transcript.sessionId.slice(0, 8)}`,
+        '',
+        '| | |',
+        '|---|---|',
+        ...headerRows(transcript).map(([key, value]) => `| ${key} | \`${value}\` |`),
+        '',
+        '## Usage',
+        '',
+        ...usageRows(transcript).map(([key, value]) => `- **${key}:** ${value}`),
+        '',
+        '## Conversation',
+        ''
+    ];
+
+    for (const item of transcript.items) {
+        switch (item.type) {
+            case 'prompt':
+                out.push(`### Prompt${item.sender ? ` from ${item.sender}` : ''} · ${formatTime(item.ts)}`, '', item.text, '');
+                break;
+
+            case 'assistant':
+                out.push('### Claude', '', item.text, '');
+                break;
+
+            case 'tool': {
+                const summary = toolSummary(item.input);
+                out.push(`**⏺ ${item.name}**${summary ? ` \`${summary.replace(/`/g, "'")}\`` : ''}`, '');
+                const diff = toolDiff(item.name, item.input);
+                out.push(diff ? fenced(diffText(diff), 'diff') : fenced(JSON.stringify(item.input, null, 2), 'json'), '');
+                if (item.result) {
+                    out.push(item.result.isError ? 'Result (error):' : 'Result:', '', fenced(truncateLines(item.result.content)), '');
+                }
+                break;
+            }
+
+            case 'turn':
+                out.push(`_${describeTurn(item)}_`, '');
+                break;
+
+            case 'event':
+                out.push(`> ${item.text} · ${formatTime(item.ts)}`, '');
+                break;
+        }
+    }
+
+    return out.join('\n');
+}
+
+// ---- HTML ----
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, system-ui, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+table { border-collapse: collapse; }
+td { padding: 2px 12px 2px 0; vertical-align: top; }
+td:first-child { color: #59636e; }
+pre { background: #f6f8fa; padding: 8px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+.prompt, .assistant { margin: 1.5em 0; }
+.prompt h3 { color: #1a7f37; }
+.assistant h3 { color: #0969da; }
+.text { white-space: pre-wrap; }
+.tool { margin: 0.5em 0; }
+.tool summary { cursor: pointer; font-family: monospace; }
+.error { color: #cf222e; }
+.add { color: #1a7f37; }
+.remove { color: #cf222e; }
+.skip, .turn, .event { color: #59636e; }
+`;
+
+function renderHtml(transcript: Transcript): string {
+    const rows = (pairs: Array<[string, string]>) =>
+        `<table>${pairs.map(([key, value]) => `<tr><td>${escapeHtml(key)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`;
+
+    const body: string[] = [
+        `<h1>Claude session ${escapeHtml(transcript.sessionId.slice(0, 8))}</h1>`,
+        rows(headerRows(transcript)),
+        '<h2>Usage</h2>',
+        rows(usageRows(transcript)),
+        '<h2>Conversation</h2>'
+    ];
+
+    for (const item of transcript.items) {
+        switch (item.type) {
+            case 'prompt':
+                body.push(`<div class="prompt"><h3>Prompt${item.sender ? ` from ${escapeHtml(item.sender)}` : ''} · ${formatTime(item.ts)}</h3><div class="text">${escapeHtml(item.text)}</div></div>`);
+                break;
+
+            case 'assistant':
+                body.push(`<div class="assistant"><h3>Claude</h3><div class="text">${escapeHtml(item.text)}</div></div>`);
+                break;
+
+            case 'tool': {
+                const diff = toolDiff(item.name, item.input);
+                const input = diff
+                    ? `<pre>${diff.map(line => `<span class="${line.type}">${escapeHtml(DIFF_PREFIX[line.type] + line.text)}</span>`).join('\n')}</pre>`
+                    : `<pre>${escapeHtml(JSON.stringify(item.input, null, 2))}</pre>`;
+                const result = item.result
+                    ? `<pre class="${item.result.isError ? 'error' : ''}">${escapeHtml(truncateLines(item.result.content))}</pre>`
+                    : '';
+                const status = !item.result ? '' : item.result.isError ? ' <span class="error">failed</span>' : '';
+                body.push(`<details class="tool"><summary>⏺ <b>${escapeHtml(item.name)}</b> ${escapeHtml(toolSummary(item.input))}${status}</summary>${input}${result}</details>`);
+                break;
+            }
+
+            case 'turn':
+                body.push(`<p class="turn${item.isError ? ' error' : ''}"><i>${escapeHtml(describeTurn(item))}</i></p>`);
+                break;
+
+            case 'event':
+                body.push(`<p class="event">${escapeHtml(item.text)} · ${formatTime(item.ts)}</p>`);
+                break;
+        }
+    }
+
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>Claude session ${escapeHtml(transcript.sessionId)}</title>`,
+        `<style>${HTML_STYLE}</style>`,
+        '</head>',
+        '<body>',
+        ...body,
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,76 @@
+/**
+ * Full per-session logs for transcript export
+ *
+ * The output buffer only keeps recent output, and Claude does not echo the
+ * prompts it is sent, so the daemon appends every prompt and output of a
+ * session to transcripts/<sessionId>.jsonl in the data directory. The log
+ * outlives the session (including stop-session) until it is deleted.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { TranscriptLogEntry } from '../types.js';
+
+// Session ids become file names
+const SAFE_SESSION_ID = /^[A-Za-z0-9_-]+$/;
+
+export class TranscriptLog {
+    private dir: string;
+
+    constructor(dataDir: string) {
+        this.dir = join(dataDir, 'transcripts');
+    }
+
+    private path(sessionId: string): string | null {
+        return SAFE_SESSION_ID.test(sessionId) ? join(this.dir, `${sessionId}.jsonl`) : null;
+    }
+
+    /**
+     * Append an entry to a session's log
+     */
+    append(sessionId: string, entry: TranscriptLogEntry): void {
+        const filePath = this.path(sessionId);
+        if (!filePath) {
+            return;
+        }
+
+        try {
+            if (!existsSync(this.dir)) {
+                mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+            }
+            appendFileSync(filePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+        } catch (error) {
+            console.error(`[Transcripts] Failed to write to the log of ${sessionId}:`, error);
+        }
+    }
+
+    /**
+     * Whether a session has a log (it may have been stopped long ago)
+     */
+    has(sessionId: string): boolean {
+        const filePath = this.path(sessionId);
+        return filePath !== null && existsSync(filePath);
+    }
+
+    /**
+     * All entries of a session's log, or null if it has none
+     * A partly written last line (from a crash) is skipped
+     */
+    read(sessionId: string): TranscriptLogEntry[] | null {
+        const filePath = this.path(sessionId);
+        if (!filePath || !existsSync(filePath)) {
+            return null;
+        }
+
+        const entries: TranscriptLogEntry[] = [];
+        for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line) as TranscriptLogEntry);
+            } catch {
+                // Ignore
+            }
+        }
+        return entries;
+    }
+}
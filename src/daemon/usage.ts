@@ -0,0 +1,182 @@
+/**
+ * Token usage and cost accounting
+ *
+ * Claude reports the tokens, cost and turns of each message in the `result`
+ * message that ends it. Its cost is a running total for the Claude process,
+ * so only the increase since the previous result is counted. The daemon adds
+ * these up per session (kept with the session record) and per device per day
+ * (usage.json in the data directory), so daily budgets can stop a device from
+ * sending more messages.
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ClaudeMessage, ClientUsage, UsageTotals } from '../types.js';
+
+// Days of per-device history kept in usage.json
+const USAGE_HISTORY_DAYS = 90;
+
+export function emptyUsage(): UsageTotals {
+    return {
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        costUsd: 0,
+        turns: 0,
+        durationMs: 0,
+        messages: 0
+    };
+}
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+    return {
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+        cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+        costUsd: a.costUsd + b.costUsd,
+        turns: a.turns + b.turns,
+        durationMs: a.durationMs + b.durationMs,
+        messages: a.messages + b.messages
+    };
+}
+
+/**
+ * Usage reported by a `result` message, or null for other messages
+ * `processCostUsd` is the total cost the same process reported last
+ */
+export function usageFromResult(message: ClaudeMessage, processCostUsd = 0): UsageTotals | null {
+    if (message.type !== 'result') {
+        return null;
+    }
+
+    const usage = message.usage || {};
+    const totalCostUsd = message.total_cost_usd ?? processCostUsd;
+    return {
+        inputTokens: usage.input_tokens ?? 0,
+        outputTokens: usage.output_tokens ?? 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+        cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+        costUsd: totalCostUsd >= processCostUsd ? totalCostUsd - processCostUsd : totalCostUsd,
+        turns: message.num_turns ?? 0,
+        durationMs: message.duration_ms ?? 0,
+        messages: 1
+    };
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) that daily totals and budgets use
+ */
+export function usageDay(timestamp = Date.now()): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export class UsageLedger {
+    private filePath: string;
+    private clients = new Map<string, ClientUsage>(); // Keyed by public key
+    private loadedMtime = 0;
+
+    constructor(dataDir: string) {
+        this.filePath = join(dataDir, 'usage.json');
+        this.load();
+    }
+
+    /**
+     * Load totals from disk, ignoring a missing or corrupt file
+     */
+    private load(): void {
+        this.clients.clear();
+        this.loadedMtime = 0;
+
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+
+        try {
+            this.loadedMtime = statSync(this.filePath).mtimeMs;
+            const data = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+            for (const [publicKey, usage] of Object.entries((data.clients || {}) as Record<string, ClientUsage>)) {
+                this.clients.set(publicKey, usage);
+            }
+        } catch (error) {
+            console.error('[Usage] Failed to load usage totals:', error);
+        }
+    }
+
+    /**
+     * Pick up the file again if another process wrote it
+     */
+    private reloadIfChanged(): void {
+        const mtime = existsSync(this.filePath) ? statSync(this.filePath).mtimeMs : 0;
+        if (mtime !== this.loadedMtime) {
+            this.load();
+        }
+    }
+
+    private save(): void {
+        const tmpPath = `${this.filePath}.tmp`;
+        writeFileSync(tmpPath, JSON.stringify({
+            clients: Object.fromEntries(this.clients),
+            updatedAt: Date.now()
+        }, null, 2), { mode: 0o600 });
+        renameSync(tmpPath, this.filePath);
+        this.loadedMtime = statSync(this.filePath).mtimeMs;
+    }
+
+    /**
+     * Add usage to a device's totals for today
+     */
+    record(publicKey: string, usage: UsageTotals): void {
+        this.reloadIfChanged();
+
+        const day = usageDay();
+        const current = this.clients.get(publicKey) || { total: emptyUsage(), days: {} };
+        const days: Record<string, UsageTotals> = {
+            ...current.days,
+            [day]: addUsage(current.days[day] || emptyUsage(), usage)
+        };
+
+        // Drop days past the history window
+        const oldest = usageDay(Date.now() - USAGE_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+        for (const key of Object.keys(days)) {
+            if (key < oldest) {
+                delete days[key];
+            }
+        }
+
+        this.clients.set(publicKey, { total: addUsage(current.total, usage), days });
+        this.save();
+    }
+
+    /**
+     * A device's usage today and since it was first recorded
+     */
+    get(publicKey: string): { today: UsageTotals; total: UsageTotals } {
+        this.reloadIfChanged();
+        const usage = this.clients.get(publicKey);
+        return {
+            today: usage?.days[usageDay()] || emptyUsage(),
+            total: usage?.total || emptyUsage()
+        };
+    }
+
+    /**
+     * Usage of every device, keyed by public key
+     */
+    list(): Map<string, ClientUsage> {
+        this.reloadIfChanged();
+        return new Map(this.clients);
+    }
+
+    /**
+     * Usage of all devices together today
+     */
+    today(): UsageTotals {
+        const day = usageDay();
+        return Array.from(this.list().values())
+            .reduce((sum, usage) => addUsage(sum, usage.days[day] || emptyUsage()), emptyUsage());
+    }
+}
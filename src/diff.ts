@@ -0,0 +1,86 @@
+/**
+ * Line diffs for showing Edit and Write tool calls
+ */
+
+export interface DiffLine {
+    type: 'context' | 'add' | 'remove' | 'skip'; // skip: unchanged lines left out of a hunk
+    text: string;
+}
+
+// Above this many line pairs the diff falls back to remove-all/add-all
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before === '' ? [] : before.split('\n');
+    const b = after === '' ? [] : after.split('\n');
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [
+            ...a.map(text => ({ type: 'remove' as const, text })),
+            ...b.map(text => ({ type: 'add' as const, text }))
+        ];
+    }
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ type: 'context', text: a[i] });
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push({ type: 'remove', text: a[i] });
+            i++;
+        } else {
+            lines.push({ type: 'add', text: b[j] });
+            j++;
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Keep only changed lines and `context` lines around them, replacing each
+ * longer unchanged run with a single skip line
+ */
+export function trimContext(lines: DiffLine[], context = 3): DiffLine[] {
+    const changed = lines.map(line => line.type === 'add' || line.type === 'remove');
+    const keep = lines.map((_, index) => {
+        for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+            if (changed[k]) return true;
+        }
+        return false;
+    });
+
+    const trimmed: DiffLine[] = [];
+    let skipped = 0;
+    lines.forEach((line, index) => {
+        if (keep[index]) {
+            if (skipped > 0) {
+                trimmed.push({ type: 'skip', text: `${skipped} unchanged line(s)` });
+                skipped = 0;
+            }
+            trimmed.push(line);
+        } else {
+            skipped++;
+        }
+    });
+    if (skipped > 0 && trimmed.length > 0) {
+        trimmed.push({ type: 'skip', text: `${skipped} unchanged line(s)` });
+    }
+
+    return trimmed;
+}
@@ -0,0 +1,287 @@
+/**
+ * AES-256-GCM encryption for P2P RPC messages
+ * Shared by the daemon and the client: the data key, the connection handshake
+ * and the pairing code
+ */
+
+import {
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    createPublicKey,
+    diffieHellman,
+    generateKeyPairSync,
+    hkdfSync,
+    randomBytes,
+    type KeyObject
+} from 'node:crypto';
+
+/**
+ * Key as stored in encryption.key
+ */
+export interface StoredKey {
+    id: number;
+    key: string; // Base64
+    createdAt: number;
+    retiresAt?: number; // Old keys are accepted until then
+}
+
+export interface StoredKeyFile {
+    currentKeyId: number;
+    keys: StoredKey[];
+}
+
+export class Encryption {
+    private keys = new Map<number, { key: Buffer; retiresAt?: number }>();
+    private currentKeyId: number;
+
+    constructor(keyBase64: string, keyId = 0) {
+        this.addKey(keyId, keyBase64);
+        this.currentKeyId = keyId;
+    }
+
+    /**
+     * Create from the contents of encryption.key
+     */
+    static fromKeyFile(file: StoredKeyFile): Encryption {
+        const current = file.keys.find(k => k.id === file.currentKeyId);
+        if (!current) {
+            throw new Error(`Current key ${file.currentKeyId} missing from key file`);
+        }
+
+        const encryption = new Encryption(current.key, current.id);
+        encryption.updateKeys(file);
+        return encryption;
+    }
+
+    /**
+     * Add a key (or update its retirement time)
+     */
+    addKey(keyId: number, keyBase64: string, retiresAt?: number): void {
+        const key = Buffer.from(keyBase64, 'base64');
+        if (key.length !== 32) {
+            throw new Error(`Invalid key length: expected 32 bytes, got ${key.length}`);
+        }
+        this.keys.set(keyId, { key, retiresAt });
+    }
+
+    /**
+     * Add a key received in a 'rekey' event and use it from now on
+     */
+    setCurrentKey(keyId: number, keyBase64: string): void {
+        this.addKey(keyId, keyBase64);
+        this.currentKeyId = keyId;
+    }
+
+    /**
+     * Sync with a reloaded key file: add new keys, switch the current key and
+     * apply retirement times. Returns true if the current key changed.
+     */
+    updateKeys(file: StoredKeyFile): boolean {
+        for (const stored of file.keys) {
+            this.addKey(stored.id, stored.key, stored.retiresAt);
+        }
+
+        const changed = file.currentKeyId !== this.currentKeyId;
+        this.currentKeyId = file.currentKeyId;
+        return changed;
+    }
+
+    /**
+     * Encrypt data to base64 string
+     * Format v0 (key 0): version(1) + nonce(12) + ciphertext + authTag(16)
+     * Format v1: version(1) + keyId(4) + nonce(12) + ciphertext + authTag(16)
+     */
+    encrypt(data: unknown, keyId = this.currentKeyId): string {
+        const entry = this.keys.get(keyId);
+        if (!entry) {
+            throw new Error(`Unknown key id: ${keyId}`);
+        }
+
+        const nonce = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', entry.key, nonce);
+        const plaintext = Buffer.from(JSON.stringify(data), 'utf-8');
+        const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+        const authTag = cipher.getAuthTag();
+
+        // Key 0 keeps the original format so clients that predate rotation still work
+        const header = Buffer.alloc(keyId === 0 ? 1 : 5);
+        if (keyId === 0) {
+            header.writeUInt8(0, 0); // Version 0
+        } else {
+            header.writeUInt8(1, 0); // Version 1
+            header.writeUInt32BE(keyId, 1);
+        }
+
+        return Buffer.concat([header, nonce, encrypted, authTag]).toString('base64');
+    }
+
+    /**
+     * Decrypt base64 string to data
+     */
+    decrypt<T = unknown>(encryptedBase64: string): T {
+        const bundle = Buffer.from(encryptedBase64, 'base64');
+        const { keyId, headerLength } = this.readHeader(bundle);
+
+        const entry = this.keys.get(keyId);
+        if (!entry) {
+            throw new Error(`Unknown key id: ${keyId}`);
+        }
+        if (entry.retiresAt !== undefined && entry.retiresAt <= Date.now()) {
+            throw new Error(`Key ${keyId} has been retired`);
+        }
+
+        const nonce = bundle.subarray(headerLength, headerLength + 12);
+        const authTag = bundle.subarray(bundle.length - 16);
+        const ciphertext = bundle.subarray(headerLength + 12, bundle.length - 16);
+
+        const decipher = createDecipheriv('aes-256-gcm', entry.key, nonce);
+        decipher.setAuthTag(authTag);
+        const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+
+        return JSON.parse(decrypted.toString('utf-8')) as T;
+    }
+
+    /**
+     * Get the key id a bundle was encrypted with
+     */
+    keyIdOf(encryptedBase64: string): number {
+        return this.readHeader(Buffer.from(encryptedBase64, 'base64')).keyId;
+    }
+
+    private readHeader(bundle: Buffer): { keyId: number; headerLength: number } {
+        if (bundle.length < 29) {
+            throw new Error('Encrypted bundle too short');
+        }
+
+        const version = bundle.readUInt8(0);
+        if (version === 0) {
+            return { keyId: 0, headerLength: 1 };
+        }
+        if (version === 1 && bundle.length >= 33) {
+            return { keyId: bundle.readUInt32BE(1), headerLength: 5 };
+        }
+        throw new Error(`Unknown encryption version: ${version}`);
+    }
+
+    /**
+     * Get a key (default: the current one) as base64 string, for pairing and
+     * the connection handshake
+     */
+    getKeyBase64(keyId = this.currentKeyId): string {
+        const entry = this.keys.get(keyId);
+        if (!entry) {
+            throw new Error(`Unknown key id: ${keyId}`);
+        }
+        return entry.key.toString('base64');
+    }
+
+    getCurrentKeyId(): number {
+        return this.currentKeyId;
+    }
+}
+
+/**
+ * Generate a new random 256-bit encryption key
+ */
+export function generateEncryptionKey(): string {
+    return randomBytes(32).toString('base64');
+}
+
+/**
+ * Parse encryption.key, accepting the original single-key format
+ */
+export function parseKeyFile(data: { key?: string; createdAt?: number } & Partial<StoredKeyFile>): StoredKeyFile | null {
+    if (Array.isArray(data.keys) && typeof data.currentKeyId === 'number') {
+        return { currentKeyId: data.currentKeyId, keys: data.keys };
+    }
+    if (data.key) {
+        return { currentKeyId: 0, keys: [{ id: 0, key: data.key, createdAt: data.createdAt ?? Date.now() }] };
+    }
+    return null;
+}
+
+/**
+ * Add a new current key; the previous keys retire after the grace window
+ * and keys that already retired are dropped
+ */
+export function rotateKeyFile(file: StoredKeyFile, graceMs: number): StoredKeyFile {
+    const now = Date.now();
+    const kept = file.keys
+        .filter(k => k.retiresAt === undefined || k.retiresAt > now)
+        .map(k => ({ ...k, retiresAt: k.retiresAt ?? now + graceMs }));
+    const id = Math.max(...file.keys.map(k => k.id)) + 1;
+
+    return {
+        currentKeyId: id,
+        keys: [...kept, { id, key: generateEncryptionKey(), createdAt: now }]
+    };
+}
+
+// DER prefix of an X25519 SubjectPublicKeyInfo; the raw 32-byte key follows
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+/**
+ * Ephemeral X25519 keypair for one connection handshake
+ */
+export interface EphemeralKey {
+    privateKey: KeyObject;
+    publicKey: string; // Raw 32 bytes, base64
+}
+
+export function createEphemeralKey(): EphemeralKey {
+    const { privateKey, publicKey } = generateKeyPairSync('x25519');
+    const der = publicKey.export({ format: 'der', type: 'spki' });
+    return { privateKey, publicKey: der.subarray(X25519_SPKI_PREFIX.length).toString('base64') };
+}
+
+/**
+ * Per-connection keys, one for each direction
+ */
+export interface SessionKeys {
+    clientToServer: string; // Base64
+    serverToClient: string; // Base64
+}
+
+/**
+ * Derive the connection's AES-GCM keys from the X25519 shared secret
+ * The long-term key is the HKDF salt, so only its holders derive the same keys;
+ * both ephemeral public keys are bound in through the info string
+ */
+export function deriveSessionKeys(
+    privateKey: KeyObject,
+    peerPublicKey: string,
+    staticKeyBase64: string,
+    clientPublicKey: string,
+    serverPublicKey: string
+): SessionKeys {
+    const raw = Buffer.from(peerPublicKey, 'base64');
+    if (raw.length !== 32) {
+        throw new Error('Invalid ephemeral public key');
+    }
+
+    const publicKey = createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, raw]), format: 'der', type: 'spki' });
+    const shared = diffieHellman({ privateKey, publicKey });
+    const info = Buffer.from(`p2p-claude session v1|${clientPublicKey}|${serverPublicKey}`, 'utf-8');
+    const okm = Buffer.from(hkdfSync('sha256', shared, Buffer.from(staticKeyBase64, 'base64'), info, 64));
+
+    return {
+        clientToServer: okm.subarray(0, 32).toString('base64'),
+        serverToClient: okm.subarray(32).toString('base64')
+    };
+}
+
+/**
+ * Short authentication string both sides display when an invite requires
+ * confirmation. Binds the invite secret to both public keys, so a device
+ * that intercepted the URL shows a different code than the daemon expects.
+ */
+export function computeSas(inviteSecret: string, daemonPublicKey: string, clientPublicKey: string): string {
+    const digest = createHash('sha256')
+        .update(Buffer.from(inviteSecret, 'base64'))
+        .update(Buffer.from(daemonPublicKey, 'base64'))
+        .update(Buffer.from(clientPublicKey, 'base64'))
+        .digest();
+    const code = (digest.readUInt32BE(0) % 1000000).toString().padStart(6, '0');
+    return `${code.slice(0, 3)} ${code.slice(3)}`;
+}
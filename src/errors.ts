@@ -0,0 +1,55 @@
+/**
+ * Structured RPC errors
+ *
+ * The daemon throws RpcError from its handlers and sends it as an
+ * RpcErrorInfo; RpcClient turns that back into an RpcError, and raises its
+ * own for timeouts and connection failures, so callers can switch on `code`
+ * instead of matching message text.
+ */
+
+import type { RpcErrorCode, RpcErrorInfo } from './types.js';
+
+// Codes worth retrying unchanged, after a moment
+const RETRYABLE: RpcErrorCode[] = ['TIMEOUT', 'TRANSPORT', 'LIMIT_EXCEEDED'];
+
+export interface RpcErrorOptions {
+    data?: unknown; // Details for programs, e.g. { sessionId }
+    retryable?: boolean; // Defaults by code: timeouts, transport errors and session limits
+}
+
+export class RpcError extends Error {
+    readonly code: RpcErrorCode;
+    readonly data?: unknown;
+    readonly retryable: boolean;
+
+    constructor(code: RpcErrorCode, message: string, options: RpcErrorOptions = {}) {
+        super(message);
+        this.name = 'RpcError';
+        this.code = code;
+        this.data = options.data;
+        this.retryable = options.retryable ?? RETRYABLE.includes(code);
+    }
+
+    /**
+     * Any thrown value as an RpcError; unexpected errors become INTERNAL
+     */
+    static from(error: unknown): RpcError {
+        if (error instanceof RpcError) return error;
+        return new RpcError('INTERNAL', error instanceof Error ? error.message : String(error));
+    }
+
+    /**
+     * Rebuild an error received from the daemon
+     * Older daemons sent a bare message
+     */
+    static fromInfo(info: RpcErrorInfo | string | undefined): RpcError {
+        if (!info || typeof info === 'string') {
+            return new RpcError('INTERNAL', info || 'RPC failed');
+        }
+        return new RpcError(info.code, info.message, { data: info.data, retryable: info.retryable });
+    }
+
+    toInfo(): RpcErrorInfo {
+        return { code: this.code, message: this.message, data: this.data, retryable: this.retryable };
+    }
+}
@@ -4,27 +4,100 @@
  *
  * Commands:
  *   daemon  - Start the P2P daemon
- *   pair    - Show pairing URL (daemon must be running)
+ *   pair    - Create a one-time pairing invite
+ *   clients - List or revoke paired devices
  */
 
-import { Daemon } from './daemon/daemon.js';
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'node:fs';
+import { join } from 'node:path';
+import { Daemon, resolveDataDir, type SessionLimits, type UsageBudget } from './daemon/daemon.js';
+import { ClientRegistry } from './daemon/clients.js';
+import { AccessPolicy } from './daemon/policy.js';
+import { readAuditLog, verifyAuditLog } from './daemon/audit.js';
+import { UsageLedger, usageDay } from './daemon/usage.js';
+import type { AuditEntry } from './types.js';
+import { InviteStore, buildInviteUrl } from './daemon/invites.js';
+import { parseKeyFile, rotateKeyFile } from './encryption.js';
+import { rotateKeyPairFile } from './daemon/dht.js';
 
 const args = process.argv.slice(2);
 const command = args[0];
 
-// Parse --root-dir argument
-function parseRootDir(): string | undefined {
+// Get the value following a flag, or from --flag=value
+function parseOption(...names: string[]): string | undefined {
     for (let i = 0; i < args.length; i++) {
-        if (args[i] === '--root-dir' || args[i] === '-r') {
+        if (names.includes(args[i])) {
             return args[i + 1];
         }
-        if (args[i].startsWith('--root-dir=')) {
-            return args[i].split('=')[1];
+        for (const name of names) {
+            if (args[i].startsWith(`${name}=`)) {
+                return args[i].slice(name.length + 1);
+            }
         }
     }
     return undefined;
 }
 
+// Parse a duration like 90s, 10m, 2h or 1d (plain numbers are minutes)
+function parseDuration(value: string): number {
+    const match = /^(\d+)([smhd]?)$/.exec(value.trim());
+    if (!match) {
+        throw new Error(`Invalid duration: ${value}`);
+    }
+    const units: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+    return parseInt(match[1], 10) * units[match[2] || 'm'];
+}
+
+// Get a positive whole number option, if given
+function parseCountOption(name: string): number | undefined {
+    const value = parseOption(name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return count;
+}
+
+// Get a dollar amount option, if given
+function parseAmountOption(name: string): number | undefined {
+    const value = parseOption(name);
+    if (value === undefined) {
+        return undefined;
+    }
+    const amount = Number(value.replace(/^\$/, ''));
+    if (!Number.isFinite(amount) || amount < 0) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return amount;
+}
+
+// Get every value of a repeatable flag (--flag value or --flag=value)
+function parseOptionList(...names: string[]): string[] {
+    const values: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if (names.includes(args[i]) && args[i + 1] !== undefined) {
+            values.push(args[++i]);
+            continue;
+        }
+        for (const name of names) {
+            if (args[i].startsWith(`${name}=`)) {
+                values.push(args[i].slice(name.length + 1));
+            }
+        }
+    }
+    return values;
+}
+
+// Replace a file holding secret keys; written as a new file, so it is mode 0600 even if the old one was not
+function writeKeyFile(path: string, data: unknown): void {
+    const tmpPath = `${path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    renameSync(tmpPath, path);
+}
+
 async function main(): Promise<void> {
     switch (command) {
         case 'daemon':
@@ -33,6 +106,26 @@ async function main(): Promise<void> {
             await startDaemon();
             break;
 
+        case 'pair':
+            createInvite();
+            break;
+
+        case 'clients':
+            manageClients(args[1], args[2]);
+            break;
+
+        case 'rotate-keys':
+            rotateKeys();
+            break;
+
+        case 'audit':
+            await manageAudit(args[1]);
+            break;
+
+        case 'usage':
+            showUsage();
+            break;
+
         case 'help':
         case '--help':
         case '-h':
@@ -47,19 +140,268 @@ async function main(): Promise<void> {
 }
 
 async function startDaemon(): Promise<void> {
-    const rootDir = parseRootDir();
+    const rootDirs = parseOptionList('--root-dir', '-r');
+    const denyDirs = parseOptionList('--deny-dir');
+    const idleTimeout = parseOption('--idle-timeout');
+    const maxLifetime = parseOption('--max-lifetime');
+    const limits: SessionLimits = {
+        maxSessions: parseCountOption('--max-sessions'),
+        maxSessionsPerClient: parseCountOption('--max-sessions-per-client'),
+        idleTimeoutMs: idleTimeout ? parseDuration(idleTimeout) : undefined,
+        maxLifetimeMs: maxLifetime ? parseDuration(maxLifetime) : undefined,
+        maxTurns: parseCountOption('--max-turns')
+    };
+
+    const budget: UsageBudget = {
+        dailyUsd: parseAmountOption('--daily-budget'),
+        dailyTotalUsd: parseAmountOption('--daily-budget-total')
+    };
 
-    if (rootDir) {
-        console.log(`[Daemon] Root directory restriction: ${rootDir}`);
+    if (rootDirs.length > 0) {
+        console.log(`[Daemon] Root directory restriction: ${rootDirs.join(', ')}`);
     }
 
-    const daemon = new Daemon({ rootDir });
+    const daemon = new Daemon({ rootDirs, denyDirs, limits, budget, allowKeyPairing: args.includes('--allow-key-pairing') });
     await daemon.start();
 
     // Keep process alive
     await new Promise(() => {});
 }
 
+function createInvite(): void {
+    const dataDir = resolveDataDir();
+    const infoPath = join(dataDir, 'daemon.json');
+
+    if (!existsSync(infoPath)) {
+        console.error('Daemon has not been started yet. Run `p2p-claude daemon` first.');
+        process.exit(1);
+    }
+
+    const info = JSON.parse(readFileSync(infoPath, 'utf-8'));
+    const ttl = parseOption('--ttl');
+
+    const invite = new InviteStore(dataDir).create({
+        ttlMs: ttl ? parseDuration(ttl) : undefined,
+        maxUses: parseCountOption('--max-uses'),
+        confirm: args.includes('--confirm')
+    });
+
+    console.log('');
+    console.log('Pairing URL:');
+    console.log(`  ${buildInviteUrl(info.dhtPublicKey, invite, { ...info.metadata, createdAt: invite.createdAt })}`);
+    console.log('');
+    console.log(`Expires ${new Date(invite.expiresAt).toLocaleString()} • ${invite.maxUses} use(s)`);
+    if (invite.confirm) {
+        console.log('Each device must be approved at the daemon terminal by comparing a code.');
+    }
+    console.log('');
+}
+
+function manageClients(subcommand: string | undefined, target: string | undefined): void {
+    const dataDir = resolveDataDir();
+    const registry = new ClientRegistry(dataDir);
+
+    switch (subcommand) {
+        case 'list':
+        case undefined: {
+            const clients = registry.list();
+            if (clients.length === 0) {
+                console.log('No paired devices');
+                return;
+            }
+            const policy = new AccessPolicy(dataDir);
+            for (const client of clients) {
+                const status = client.revokedAt
+                    ? `revoked ${new Date(client.revokedAt).toLocaleString()}`
+                    : `last seen ${client.lastSeenAt ? new Date(client.lastSeenAt).toLocaleString() : 'never'}`;
+                const role = policy.isEnabled() ? `  role ${policy.roleName(client)}` : '';
+                console.log(`${client.name.padEnd(20)} ${client.publicKey.slice(0, 12)}...  paired ${new Date(client.pairedAt).toLocaleString()}  ${status}${role}`);
+            }
+            return;
+        }
+
+        case 'revoke': {
+            if (!target) {
+                console.error('Usage: p2p-claude clients revoke <name>');
+                process.exit(1);
+            }
+            const revoked = registry.revoke(target);
+            if (!revoked) {
+                console.error(`No active device named ${target}`);
+                process.exit(1);
+            }
+            console.log(`Revoked ${revoked.name}. A running daemon disconnects it within a few seconds.`);
+
+            // The revoked device knows the data key; replace it so it is useless once the grace window ends
+            const keyPath = join(dataDir, 'encryption.key');
+            const file = existsSync(keyPath) ? parseKeyFile(JSON.parse(readFileSync(keyPath, 'utf-8'))) : null;
+            if (file) {
+                const grace = parseOption('--grace');
+                const graceMs = grace ? parseDuration(grace) : 24 * 60 * 60 * 1000;
+                const rotated = rotateKeyFile(file, graceMs);
+                writeKeyFile(keyPath, rotated);
+                console.log(`Rotated the data key to key ${rotated.currentKeyId}; paired devices receive it when they connect,`);
+                console.log(`until ${new Date(Date.now() + graceMs).toLocaleString()}.`);
+            }
+            return;
+        }
+
+        default:
+            console.error(`Unknown clients command: ${subcommand}`);
+            showHelp();
+            process.exit(1);
+    }
+}
+
+function showUsage(): void {
+    const dataDir = resolveDataDir();
+    const days = parseCountOption('--days') ?? 30;
+    const usage = new UsageLedger(dataDir).list();
+    if (usage.size === 0) {
+        console.log('No usage recorded');
+        return;
+    }
+
+    const names = new Map(new ClientRegistry(dataDir).list().map(client => [client.publicKey, client.name]));
+    const today = usageDay();
+    const since = usageDay(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+
+    console.log(`${'Device'.padEnd(20)} ${'Today'.padStart(10)} ${`${days} days`.padStart(10)} ${'All time'.padStart(10)} ${'Tokens in'.padStart(12)} ${'Tokens out'.padStart(12)}`);
+    for (const [publicKey, client] of usage) {
+        const recent = Object.entries(client.days)
+            .filter(([day]) => day >= since)
+            .reduce((sum, [, totals]) => sum + totals.costUsd, 0);
+        const tokensIn = client.total.inputTokens + client.total.cacheCreationTokens + client.total.cacheReadTokens;
+        console.log([
+            (names.get(publicKey) || `${publicKey.slice(0, 12)}...`).padEnd(20),
+            formatCost(client.days[today]?.costUsd ?? 0).padStart(10),
+            formatCost(recent).padStart(10),
+            formatCost(client.total.costUsd).padStart(10),
+            tokensIn.toString().padStart(12),
+            client.total.outputTokens.toString().padStart(12)
+        ].join(' '));
+    }
+}
+
+function formatCost(usd: number): string {
+    return `$${usd.toFixed(2)}`;
+}
+
+function rotateKeys(): void {
+    const dataDir = resolveDataDir();
+    const keyPath = join(dataDir, 'encryption.key');
+    const infoPath = join(dataDir, 'daemon.json');
+
+    const file = existsSync(keyPath) ? parseKeyFile(JSON.parse(readFileSync(keyPath, 'utf-8'))) : null;
+    if (!file) {
+        console.error('Daemon has not been started yet. Run `p2p-claude daemon` first.');
+        process.exit(1);
+    }
+
+    const grace = parseOption('--grace');
+    const graceMs = grace ? parseDuration(grace) : 24 * 60 * 60 * 1000;
+
+    const rotated = rotateKeyFile(file, graceMs);
+    writeKeyFile(keyPath, rotated);
+    const dhtPublicKey = rotateKeyPairFile(dataDir, graceMs);
+
+    // New invites must point at the new keypair
+    if (existsSync(infoPath)) {
+        const info = JSON.parse(readFileSync(infoPath, 'utf-8'));
+        writeFileSync(infoPath, JSON.stringify({ ...info, dhtPublicKey }, null, 2));
+    }
+
+    console.log(`Rotated to key ${rotated.currentKeyId}, DHT public key ${dhtPublicKey.slice(0, 12)}...`);
+    console.log(`Old keys are accepted until ${new Date(Date.now() + graceMs).toLocaleString()}.`);
+    console.log('A running daemon sends the new keys to connected devices within a few seconds;');
+    console.log('devices that stay offline longer than that must pair again.');
+}
+
+async function manageAudit(subcommand: string | undefined): Promise<void> {
+    const dataDir = resolveDataDir();
+
+    switch (subcommand) {
+        case 'verify': {
+            const result = await verifyAuditLog(dataDir);
+            if (!result.ok) {
+                console.error(`Audit log is broken after ${result.entries} valid entries: ${result.error}`);
+                process.exit(1);
+            }
+            console.log(`Audit log OK: ${result.entries} entries`);
+            return;
+        }
+
+        case 'tail':
+        case undefined: {
+            const count = parseInt(parseOption('-n', '--lines') || '20', 10);
+            const last: AuditEntry[] = [];
+            for await (const { entry } of readAuditLog(dataDir)) {
+                last.push(entry);
+                if (last.length > count) last.shift();
+            }
+            for (const entry of last) {
+                console.log(formatAuditEntry(entry));
+            }
+            return;
+        }
+
+        case 'export': {
+            const since = parseOption('--since');
+            const format = parseOption('--format') || 'jsonl';
+            const after = since ? Date.now() - parseDuration(since) : 0;
+
+            if (format === 'csv') {
+                console.log('seq,time,type,client,public_key,method,session_id,directory,outcome,tool,decision,error,hash');
+            } else if (format !== 'jsonl') {
+                console.error(`Unknown export format: ${format} (use jsonl or csv)`);
+                process.exit(1);
+            }
+
+            for await (const { entry } of readAuditLog(dataDir)) {
+                if (entry.ts < after) continue;
+                if (format === 'csv') {
+                    console.log([
+                        entry.seq, new Date(entry.ts).toISOString(), entry.type, entry.client?.name, entry.client?.publicKey,
+                        entry.method, entry.sessionId, entry.directory, entry.outcome, entry.tool?.name, entry.decision,
+                        entry.error, entry.hash
+                    ].map(csvField).join(','));
+                } else {
+                    console.log(JSON.stringify(entry));
+                }
+            }
+            return;
+        }
+
+        default:
+            console.error(`Unknown audit command: ${subcommand}`);
+            showHelp();
+            process.exit(1);
+    }
+}
+
+function formatAuditEntry(entry: AuditEntry): string {
+    const time = new Date(entry.ts).toLocaleString();
+    const who = entry.client?.name || '-';
+    const session = entry.sessionId ? entry.sessionId.slice(0, 8) : '-';
+
+    let what: string;
+    if (entry.type === 'rpc') {
+        what = `${entry.method} ${entry.outcome}${entry.error ? ` (${entry.error})` : ''}`;
+    } else if (entry.type === 'permission') {
+        what = `permission ${entry.tool?.name} ${entry.decision}`;
+    } else {
+        what = `tool ${entry.tool?.name} ${JSON.stringify(entry.tool?.input ?? {}).slice(0, 80)}`;
+    }
+
+    return `${String(entry.seq).padStart(6)}  ${time}  ${who.padEnd(20)} ${session}  ${what}`;
+}
+
+function csvField(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
 function showHelp(): void {
     console.log(`
 P2P Claude Code Daemon
@@ -68,12 +410,49 @@ Usage:
   p2p-claude [command] [options]
 
 Commands:
-  daemon    Start the P2P daemon (default)
-  help      Show this help message
+  daemon                  Start the P2P daemon (default)
+  pair                    Create a one-time pairing invite
+  clients list            List paired devices
+  clients revoke <name>   Revoke a device (its connections are closed) and
+                          rotate the data key
+  rotate-keys             Replace the data key and DHT keypair
+  audit verify            Check the audit log's hash chain
+  audit tail [-n <n>]     Show the latest audit entries (default: 20)
+  audit export            Print the audit log (--since <duration>, --format jsonl|csv)
+  usage [--days <n>]      Show spending per device (default: last 30 days)
+  help                    Show this help message
 
 Options:
   --root-dir, -r <path>  Restrict Claude sessions to this directory
-                         Sessions cannot access files outside this path
+                         (repeat for several roots; symlinks are resolved)
+  --deny-dir <path>      Never allow sessions in this directory (repeatable;
+                         ~/.ssh, ~/.gnupg, ~/.aws, ~/.config/gcloud and the
+                         data directory are always denied)
+  --max-sessions <n>     Maximum running sessions
+  --max-sessions-per-client <n>
+                         Maximum running sessions per paired device
+  --idle-timeout <duration>
+                         Stop sessions with no message or output for this
+                         long, e.g. 30m (they stay resumable)
+  --max-lifetime <duration>
+                         Stop sessions running for longer than this, e.g. 8h
+  --max-turns <n>        Default and maximum agentic turns per message
+  --daily-budget <usd>   Refuse messages from a device once it has spent
+                         this much today
+  --daily-budget-total <usd>
+                         Refuse all messages once all devices together have
+                         spent this much today
+  --allow-key-pairing    Let devices pair with the data key alone (v1 URLs),
+                         without an invite
+
+Pair Options:
+  --ttl <duration>       Invite lifetime, e.g. 30m, 2h, 1d (default: 10m)
+  --max-uses <n>         Number of devices that may use the invite (default: 1)
+  --confirm              Approve each device at the daemon terminal by
+                         comparing a short code
+
+Rotate and Revoke Options:
+  --grace <duration>     How long old keys keep working (default: 24h)
 
 Environment Variables:
   P2P_CLAUDE_DATA_DIR    Data directory (default: ~/.p2p-claude)
@@ -84,9 +463,24 @@ Examples:
   p2p-claude daemon
 
   # Start with directory restriction
-  p2p-claude daemon --root-dir ~/projects
+  p2p-claude daemon --root-dir ~/projects --root-dir ~/work --deny-dir ~/work/secrets
+
+  # Reap forgotten sessions and cap how many each device may run
+  p2p-claude daemon --idle-timeout 30m --max-lifetime 8h --max-sessions-per-client 3
+
+  # Invite a device (URL is single-use and expires in 10 minutes)
+  p2p-claude pair --confirm
 
   # Then use the pairing URL with the client to connect
+
+  # Revoke a lost laptop
+  p2p-claude clients revoke my-laptop
+
+  # Who did what in the last day
+  p2p-claude audit export --since 1d --format csv > audit.csv
+
+  # Rotate keys, giving offline devices a week to reconnect
+  p2p-claude rotate-keys --grace 7d
 `);
 }
 
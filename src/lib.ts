@@ -0,0 +1,18 @@
+/**
+ * Package entry point: the typed client and the protocol types
+ * The daemon and chat CLIs are started from bin/ and are not part of it
+ */
+
+export { P2PClaudeClient, type P2PClaudeClientOptions } from './client/sdk.js';
+export {
+    RpcClient,
+    SessionSubscription,
+    parsePairingUrl,
+    type PairingInfo,
+    type SubscribeOptions,
+    type ConnectionState
+} from './client/rpc.js';
+export { RPC_METHODS, type RpcMethods, type RpcMethod, type RpcParams, type RpcResult, type NoParams } from './rpc-methods.js';
+export { RpcError, type RpcErrorOptions } from './errors.js';
+export { ValidationError, type ValidationCode } from './schema.js';
+export type * from './types.js';
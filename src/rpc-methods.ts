@@ -0,0 +1,98 @@
+/**
+ * The daemon's RPC methods: schemas for the params and result of each
+ *
+ * The daemon's handler table and the typed client calls (RpcClient.call and
+ * P2PClaudeClient) are checked against this one map, so adding a method here
+ * makes the daemon fail to compile until it handles it. The schemas are also
+ * checked at runtime: params by the daemon before dispatch (and by the client
+ * before sending), results by the client.
+ */
+
+import { validate, type Infer, type Schema } from './schema.js';
+import {
+    noParams,
+    pairOptions,
+    pairResult,
+    spawnSessionOptions,
+    spawnSessionResult,
+    resumeSessionOptions,
+    persistedSessions,
+    sendMessageOptions,
+    sendMessageResult,
+    interruptSessionOptions,
+    interruptSessionResult,
+    configureSessionOptions,
+    configureSessionResult,
+    getUsageOptions,
+    getUsageResult,
+    exportTranscriptOptions,
+    exportTranscriptResult,
+    getOutputOptions,
+    getOutputResult,
+    subscribeSessionOptions,
+    subscribeSessionResult,
+    answerPermissionOptions,
+    answerPermissionResult,
+    stopSessionOptions,
+    stopSessionResult,
+    sessionInfos,
+    pingResult,
+    getSessionStateResult
+} from './rpc-schemas.js';
+
+export const RPC_METHODS = {
+    'pair': { params: pairOptions, result: pairResult },
+    'spawn-session': { params: spawnSessionOptions, result: spawnSessionResult },
+    'resume-session': { params: resumeSessionOptions, result: spawnSessionResult },
+    'list-resumable-sessions': { params: noParams, result: persistedSessions },
+    'send-message': { params: sendMessageOptions, result: sendMessageResult },
+    'interrupt-session': { params: interruptSessionOptions, result: interruptSessionResult },
+    'configure-session': { params: configureSessionOptions, result: configureSessionResult },
+    'get-usage': { params: getUsageOptions, result: getUsageResult },
+    'export-transcript': { params: exportTranscriptOptions, result: exportTranscriptResult },
+    'get-output': { params: getOutputOptions, result: getOutputResult },
+    'subscribe-session': { params: subscribeSessionOptions, result: subscribeSessionResult },
+    'unsubscribe-session': { params: subscribeSessionOptions, result: subscribeSessionResult },
+    'answer-permission': { params: answerPermissionOptions, result: answerPermissionResult },
+    'stop-session': { params: stopSessionOptions, result: stopSessionResult },
+    'list-sessions': { params: noParams, result: sessionInfos },
+    'ping': { params: noParams, result: pingResult },
+    'get-session-state': { params: noParams, result: getSessionStateResult }
+};
+
+// Params of methods that take none
+export type NoParams = Record<string, never>;
+
+export type RpcMethods = {
+    [M in keyof typeof RPC_METHODS]: {
+        params: Infer<(typeof RPC_METHODS)[M]['params']>;
+        result: Infer<(typeof RPC_METHODS)[M]['result']>;
+    };
+};
+
+export type RpcMethod = keyof RpcMethods;
+export type RpcParams<M extends RpcMethod> = RpcMethods[M]['params'];
+export type RpcResult<M extends RpcMethod> = RpcMethods[M]['result'];
+
+// The map again, indexable by a generic method
+const SCHEMAS: { [M in RpcMethod]: { params: Schema<RpcParams<M>>; result: Schema<RpcResult<M>> } } = RPC_METHODS;
+
+export function isRpcMethod(method: string): method is RpcMethod {
+    return Object.hasOwn(RPC_METHODS, method);
+}
+
+/**
+ * Check a method's params, rejecting fields the method does not take
+ * Throws a ValidationError (INVALID_PARAMS) naming the offending field
+ */
+export function validateParams<M extends RpcMethod>(method: M, params: unknown): RpcParams<M> {
+    return validate(SCHEMAS[method].params, params, 'INVALID_PARAMS', true);
+}
+
+/**
+ * Check a method's result; fields added by newer daemons are let through
+ * Throws a ValidationError (INVALID_RESULT) naming the offending field
+ */
+export function validateResult<M extends RpcMethod>(method: M, result: unknown): RpcResult<M> {
+    return validate(SCHEMAS[method].result, result, 'INVALID_RESULT', false);
+}
@@ -0,0 +1,235 @@
+/**
+ * Schemas for the RPC params and results in types.ts
+ * Each is annotated with its type, so the compiler keeps the two in step
+ */
+
+import {
+    array,
+    boolean,
+    literal,
+    nullable,
+    number,
+    object,
+    oneOf,
+    optional,
+    passthrough,
+    string,
+    type Schema
+} from './schema.js';
+import type {
+    PairOptions,
+    PairResult,
+    PermissionMode,
+    PermissionDecision,
+    SpawnSessionOptions,
+    SpawnSessionResult,
+    ResumeSessionOptions,
+    PersistedSession,
+    SendMessageOptions,
+    SendMessageResult,
+    InterruptSessionOptions,
+    InterruptSessionResult,
+    ConfigureSessionOptions,
+    ConfigureSessionResult,
+    UsageTotals,
+    GetUsageOptions,
+    GetUsageResult,
+    TranscriptFormat,
+    ExportTranscriptOptions,
+    ExportTranscriptResult,
+    ClaudeMessage,
+    SessionOutput,
+    GetOutputOptions,
+    GetOutputResult,
+    SubscribeSessionOptions,
+    SubscribeSessionResult,
+    AnswerPermissionOptions,
+    AnswerPermissionResult,
+    StopSessionOptions,
+    StopSessionResult,
+    SessionInfo,
+    SuccessResult,
+    PingResult,
+    GetSessionStateResult
+} from './types.js';
+
+export const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'bypassPermissions', 'plan'];
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['md', 'json', 'html'];
+const PERMISSION_DECISIONS: PermissionDecision[] = ['allow-once', 'allow-always', 'deny'];
+
+// Session ids name transcript files and are passed to Claude Code
+const sessionId = string({ pattern: /^[A-Za-z0-9_-]+$/, maxLength: 128 });
+
+// Passed to Claude Code as --model (aliases, model names, Bedrock and Vertex ids);
+// must not look like another option
+const model = string({ pattern: /^[A-Za-z0-9][A-Za-z0-9._:@/[\]-]*$/, maxLength: 256 });
+
+const seq = number({ integer: true, min: 0 });
+const timestamp = number({ min: 0 });
+
+// Requests that only name a session
+const sessionRequest = object({ sessionId });
+
+// Replies that only report success (failures are errors)
+const success: Schema<SuccessResult> = object({ success: literal(true) });
+
+export const noParams: Schema<Record<string, never>> = object({});
+
+export const pairOptions: Schema<PairOptions> = object({
+    name: string({ nonEmpty: true, maxLength: 256 })
+});
+
+export const pairResult: Schema<PairResult> = object({
+    name: string(),
+    publicKey: string(),
+    dataKey: optional(string()),
+    keyId: optional(number({ integer: true, min: 0 }))
+});
+
+export const spawnSessionOptions: Schema<SpawnSessionOptions> = object({
+    directory: string({ nonEmpty: true, maxLength: 4096 }),
+    sessionId: optional(sessionId),
+    permissionMode: optional(oneOf(PERMISSION_MODES)),
+    model: optional(model),
+    maxTurns: optional(number({ integer: true, min: 1 }))
+});
+
+export const spawnSessionResult: Schema<SpawnSessionResult> = object({
+    sessionId: string(),
+    pid: number({ integer: true })
+});
+
+export const resumeSessionOptions: Schema<ResumeSessionOptions> = sessionRequest;
+
+const usageTotals: Schema<UsageTotals> = object({
+    inputTokens: number(),
+    outputTokens: number(),
+    cacheCreationTokens: number(),
+    cacheReadTokens: number(),
+    costUsd: number(),
+    turns: number(),
+    durationMs: number(),
+    messages: number()
+});
+
+const persistedSession: Schema<PersistedSession> = object({
+    sessionId: string(),
+    claudeSessionId: optional(string()),
+    directory: string(),
+    permissionMode: oneOf(PERMISSION_MODES),
+    model: optional(string()),
+    owner: optional(string()),
+    maxTurns: optional(number()),
+    usage: optional(usageTotals),
+    createdAt: timestamp,
+    nextSeq: seq
+});
+
+export const persistedSessions: Schema<PersistedSession[]> = array(persistedSession);
+
+export const sendMessageOptions: Schema<SendMessageOptions> = object({
+    sessionId,
+    text: string({ nonEmpty: true })
+});
+
+export const sendMessageResult: Schema<SendMessageResult> = success;
+
+export const interruptSessionOptions: Schema<InterruptSessionOptions> = sessionRequest;
+export const interruptSessionResult: Schema<InterruptSessionResult> = success;
+
+export const configureSessionOptions: Schema<ConfigureSessionOptions> = object({
+    sessionId,
+    permissionMode: optional(oneOf(PERMISSION_MODES)),
+    model: optional(model)
+});
+
+export const configureSessionResult: Schema<ConfigureSessionResult> = success;
+
+export const getUsageOptions: Schema<GetUsageOptions> = object({
+    sessionId: optional(sessionId)
+});
+
+export const getUsageResult: Schema<GetUsageResult> = object({
+    session: optional(usageTotals),
+    client: object({ today: usageTotals, total: usageTotals }),
+    budget: optional(object({
+        dailyUsd: optional(number()),
+        dailyTotalUsd: optional(number()),
+        remainingUsd: number()
+    }))
+});
+
+export const exportTranscriptOptions: Schema<ExportTranscriptOptions> = object({
+    sessionId,
+    format: optional(oneOf(TRANSCRIPT_FORMATS))
+});
+
+export const exportTranscriptResult: Schema<ExportTranscriptResult> = object({
+    format: oneOf(TRANSCRIPT_FORMATS),
+    filename: string(),
+    content: string()
+});
+
+// Claude Code's own messages: only what clients switch on is checked
+const claudeMessage = passthrough<ClaudeMessage>({
+    type: string()
+});
+
+const sessionOutput: Schema<SessionOutput> = object({
+    type: oneOf(['session-output', 'session-ended']),
+    seq: seq,
+    data: claudeMessage,
+    timestamp,
+    reason: optional(oneOf(['stopped', 'exited', 'idle-timeout', 'max-lifetime']))
+});
+
+export const getOutputOptions: Schema<GetOutputOptions> = object({
+    sessionId,
+    sinceSeq: optional(seq)
+});
+
+export const getOutputResult: Schema<GetOutputResult> = object({
+    messages: array(sessionOutput),
+    latestSeq: seq,
+    gap: optional(object({ fromSeq: seq, toSeq: seq }))
+});
+
+export const subscribeSessionOptions: Schema<SubscribeSessionOptions> = sessionRequest;
+
+export const subscribeSessionResult: Schema<SubscribeSessionResult> = object({
+    subscribed: boolean()
+});
+
+export const answerPermissionOptions: Schema<AnswerPermissionOptions> = object({
+    requestId: string({ nonEmpty: true, maxLength: 128 }),
+    decision: oneOf(PERMISSION_DECISIONS),
+    message: optional(string({ maxLength: 4096 }))
+});
+
+export const answerPermissionResult: Schema<AnswerPermissionResult> = success;
+
+export const stopSessionOptions: Schema<StopSessionOptions> = sessionRequest;
+
+export const stopSessionResult: Schema<StopSessionResult> = success;
+
+export const sessionInfos: Schema<SessionInfo[]> = array(object({
+    sessionId: string(),
+    pid: number({ integer: true }),
+    createdAt: timestamp,
+    directory: string()
+}));
+
+export const pingResult: Schema<PingResult> = object({
+    pong: literal(true),
+    timestamp
+});
+
+export const getSessionStateResult: Schema<GetSessionStateResult> = nullable(object({
+    sessions: array(object({
+        sessionId: string(),
+        pid: number({ integer: true }),
+        createdAt: timestamp,
+        directory: optional(string())
+    })),
+    updatedAt: timestamp
+}));
@@ -0,0 +1,217 @@
+/**
+ * Runtime schemas for RPC params and results
+ *
+ * A schema checks a decoded JSON value and reports the first problem with the
+ * path of the offending field (e.g. `permissionMode` or `messages[3].seq`).
+ * Schemas are typed, so annotating one with a type from types.ts makes the
+ * compiler check that it describes exactly that type.
+ */
+
+import { RpcError } from './errors.js';
+
+export type ValidationCode = 'INVALID_PARAMS' | 'INVALID_RESULT';
+
+/**
+ * A value did not match its schema
+ * `field` (also sent as data.field) is the path of the offending field, ''
+ * for the value itself
+ */
+export class ValidationError extends RpcError {
+    declare readonly code: ValidationCode;
+
+    constructor(code: ValidationCode, readonly field: string, message: string) {
+        super(code, message, { data: { field } });
+        this.name = 'ValidationError';
+    }
+}
+
+interface Issue {
+    path: string;
+    problem: string;
+}
+
+// A schema of any type (T is exact, so Schema<string> is not a Schema<unknown>)
+interface AnySchema {
+    /**
+     * The first problem with a value, or null if it matches
+     * Strict checking rejects object fields the schema does not list
+     */
+    check(value: unknown, path: string, strict: boolean): Issue | null;
+}
+
+export interface Schema<T> extends AnySchema {
+    readonly __type?: (value: Exact<T>) => Exact<T>; // Type only: keeps T exact
+}
+
+// T with every field required, so a schema that leaves out an optional field
+// does not match the type
+type Exact<T> = T extends object ? { [K in keyof T]-?: Exact<T[K]> } : T;
+
+// Object field that may be left out
+export interface OptionalSchema<T> extends Schema<T> {
+    readonly optional: true;
+}
+
+type Shape = Record<string, AnySchema>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+type Flatten<T> = { [K in keyof T]: T[K] };
+type ObjectOf<S extends Shape> = Flatten<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function issue(path: string, problem: string): Issue {
+    return { path, problem };
+}
+
+function describe(value: unknown): string {
+    if (value === undefined) return 'undefined';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export interface StringOptions {
+    nonEmpty?: boolean;
+    maxLength?: number;
+    pattern?: RegExp;
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+    return {
+        check(value, path) {
+            if (typeof value !== 'string') return issue(path, `must be a string, got ${describe(value)}`);
+            if (options.nonEmpty && !value.trim()) return issue(path, 'must not be empty');
+            if (options.maxLength !== undefined && value.length > options.maxLength) {
+                return issue(path, `must be at most ${options.maxLength} characters`);
+            }
+            if (options.pattern && !options.pattern.test(value)) return issue(path, `has an invalid format: ${JSON.stringify(value)}`);
+            return null;
+        }
+    };
+}
+
+export interface NumberOptions {
+    integer?: boolean;
+    min?: number;
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+    return {
+        check(value, path) {
+            if (typeof value !== 'number' || !Number.isFinite(value)) return issue(path, `must be a number, got ${describe(value)}`);
+            if (options.integer && !Number.isInteger(value)) return issue(path, `must be an integer, got ${value}`);
+            if (options.min !== undefined && value < options.min) return issue(path, `must be at least ${options.min}, got ${value}`);
+            return null;
+        }
+    };
+}
+
+export function boolean(): Schema<boolean> {
+    return {
+        check(value, path) {
+            return typeof value === 'boolean' ? null : issue(path, `must be a boolean, got ${describe(value)}`);
+        }
+    };
+}
+
+export function literal<T extends string | number | boolean>(expected: T): Schema<T> {
+    return {
+        check(value, path) {
+            return value === expected ? null : issue(path, `must be ${JSON.stringify(expected)}, got ${describe(value)}`);
+        }
+    };
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+    return {
+        check(value, path) {
+            return values.includes(value as T) ? null : issue(path, `must be one of ${values.join(', ')}, got ${describe(value)}`);
+        }
+    };
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+    return {
+        optional: true,
+        check(value, path, strict) {
+            return value === undefined ? null : schema.check(value, path, strict);
+        }
+    };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return {
+        check(value, path, strict) {
+            return value === null ? null : schema.check(value, path, strict);
+        }
+    };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+        check(value, path, strict) {
+            if (!Array.isArray(value)) return issue(path, `must be an array, got ${describe(value)}`);
+            for (let i = 0; i < value.length; i++) {
+                const problem = item.check(value[i], `${path}[${i}]`, strict);
+                if (problem) return problem;
+            }
+            return null;
+        }
+    };
+}
+
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+    return {
+        check(value, path, strict) {
+            if (!isPlainObject(value)) return issue(path, `must be an object, got ${describe(value)}`);
+            for (const [key, schema] of Object.entries(shape)) {
+                const fieldPath = join(path, key);
+                if (value[key] === undefined && !('optional' in schema)) return issue(fieldPath, 'is required');
+                const problem = schema.check(value[key], fieldPath, strict);
+                if (problem) return problem;
+            }
+            if (strict) {
+                const unknownKey = Object.keys(value).find(key => !Object.hasOwn(shape, key) && value[key] !== undefined);
+                if (unknownKey !== undefined) return issue(join(path, unknownKey), 'is not a known field');
+            }
+            return null;
+        }
+    };
+}
+
+/**
+ * Object whose own fields are only partly checked, typed as T
+ * For messages passed through from Claude Code, whose format is not ours:
+ * the listed fields are checked and the rest pass unchecked, even when strict
+ */
+export function passthrough<T>(shape: Shape): Schema<T> {
+    const checked = object(shape);
+    return {
+        check(value, path) {
+            return checked.check(value, path, false);
+        }
+    };
+}
+
+/**
+ * Check a value, throwing a ValidationError that names the offending field
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, code: ValidationCode, strict: boolean): T {
+    const problem = schema.check(value, '', strict);
+    if (problem) {
+        const what = code === 'INVALID_PARAMS' ? 'Invalid params' : 'Invalid result';
+        throw new ValidationError(code, problem.path, `${what}: ${problem.path ? `${problem.path} ` : ''}${problem.problem}`);
+    }
+    return value as T;
+}
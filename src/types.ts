@@ -2,19 +2,99 @@
  * Core types for P2P Claude Code daemon
  */
 
+// First frame on a connection, client to daemon: starts the key exchange
+export interface HandshakeRequest {
+    handshake: string; // Encrypted HandshakeHello, with the data key (or invite secret)
+    invite?: string; // Invite id when pairing; the invite secret replaces the data key
+}
+
+// Daemon's reply to a HandshakeRequest
+export interface HandshakeResponse {
+    handshake?: string; // Encrypted HandshakeHello
+    error?: string;
+}
+
+// Decrypted handshake: ephemeral X25519 public key
+export interface HandshakeHello {
+    publicKey: string;
+    peerPublicKey?: string; // Daemon only: the client's key, binding the reply to this handshake
+    ts: number;
+}
+
 // RPC request from P2P client
 export interface RpcRequest {
     id: string;
     method: string;
-    params: string; // Encrypted JSON
+    params: string; // Encrypted JSON, with the connection's session key
 }
 
 // RPC response to P2P client
 export interface RpcResponse {
     id: string;
     ok: boolean;
-    result?: string; // Encrypted JSON
-    error?: string;
+    result?: string; // Encrypted SealedResponse, for failures too
+    error?: RpcErrorInfo; // Only for requests that arrive before a handshake, when there is no key to seal it with
+}
+
+// Why a request failed
+export type RpcErrorCode =
+    | 'INVALID_PARAMS' // Params do not match the method's schema (data.field names the field)
+    | 'INVALID_RESULT' // Client only: the daemon's result does not match the schema
+    | 'INVALID_REQUEST' // Malformed, replayed or out-of-order request
+    | 'METHOD_NOT_FOUND'
+    | 'UNAUTHORIZED' // Device not paired, bad key, or invite invalid or rejected
+    | 'FORBIDDEN' // The device's role does not allow the request
+    | 'SESSION_NOT_FOUND' // No such running (or, for resume and export, persisted) session
+    | 'SESSION_RUNNING' // resume-session: already running
+    | 'SESSION_UNAVAILABLE' // The Claude process is not accepting input
+    | 'NOT_FOUND' // Other missing things, e.g. an answered permission request
+    | 'SANDBOX_VIOLATION' // Directory outside the allowed roots or denied
+    | 'LIMIT_EXCEEDED' // Session caps; retryable once sessions end
+    | 'BUDGET_EXCEEDED' // Daily budget spent
+    | 'SPAWN_FAILED' // Claude Code could not be started
+    | 'TIMEOUT' // Client only: no response in time
+    | 'TRANSPORT' // Client only: not connected, or the connection dropped
+    | 'INTERNAL';
+
+// Error in a failed RpcResponse
+export interface RpcErrorInfo {
+    code: RpcErrorCode;
+    message: string;
+    data?: unknown;
+    retryable: boolean; // Worth retrying unchanged
+}
+
+// Server-push event to P2P client (sent on the same socket as responses)
+export interface RpcEvent {
+    event: string;
+    data: string; // Encrypted JSON
+}
+
+// Decrypted RpcRequest.params: binds the plaintext id and method to the
+// payload, with a timestamp and per-connection counter against replay
+export interface SealedRequest {
+    id: string;
+    method: string;
+    ts: number;
+    counter: number; // Starts at 1 on each connection, increases by 1 per request
+    params: unknown;
+}
+
+// Decrypted RpcResponse.result
+export interface SealedResponse {
+    id: string;
+    ts: number;
+    counter: number; // Shared with events: one sequence per connection, daemon to client
+    result?: unknown;
+    error?: RpcErrorInfo; // Set when ok is false
+}
+
+// Decrypted RpcEvent.data
+export interface SealedEvent {
+    event: string;
+    ts: number;
+    counter: number;
+    data: unknown;
 }
 
 // Session tracking
@@ -23,15 +103,67 @@ export interface TrackedSession {
     pid: number;
     process: import('node:child_process').ChildProcess;
     outputBuffer: SessionOutput[];
+    nextSeq: number; // Sequence number assigned to the next output
+    reservedSeq: number; // nextSeq as saved in the session record; seqs below it are never reused
+    createdAt: number;
+    directory: string;
+    permissionMode: PermissionMode;
+    model?: string;
+    claudeSessionId?: string; // From Claude's system/init message, used for --resume
+    owner?: string; // Public key of the device that spawned the session
+    maxTurns?: number;
+    lastActivityAt: number; // Last send-message or output, for the idle timeout
+    lastSender?: string; // Public key of the device that sent the latest message, charged for its usage
+    usage: UsageTotals;
+    processCostUsd: number; // Running total_cost_usd of the Claude process, from its last result
+    subscribers: Map<string, (event: string, data: unknown) => void>; // Event sinks keyed by connection id
+}
+
+// Session record persisted in dataDir so it can be resumed after a daemon restart
+export interface PersistedSession {
+    sessionId: string;
+    claudeSessionId?: string;
+    directory: string;
+    permissionMode: PermissionMode;
+    model?: string;
+    owner?: string;
+    maxTurns?: number;
+    usage?: UsageTotals;
+    createdAt: number;
+    nextSeq: number; // Saved ahead of the running session, so a crash never reuses a seq
+}
+
+// Summary of an active session (list-sessions)
+export interface SessionInfo {
+    sessionId: string;
+    pid: number;
     createdAt: number;
     directory: string;
 }
 
+// Active session as published to the DHT (get-session-state)
+export interface SessionState {
+    sessionId: string;
+    pid: number;
+    createdAt: number;
+    directory?: string;
+}
+
+// Get session state result: the last state published, or null if there is none
+export type GetSessionStateResult = { sessions: SessionState[]; updatedAt: number } | null;
+
+// Why a session ended
+export type SessionEndReason = 'stopped' | 'exited' | 'idle-timeout' | 'max-lifetime';
+
 // Output from Claude session
+// A session's last output is 'session-ended', whose data is a system message
+// with subtype 'session_ended' and the reason as result
 export interface SessionOutput {
-    type: 'session-output';
+    type: 'session-output' | 'session-ended';
+    seq: number; // Monotonically increasing per session, starting at 1
     data: ClaudeMessage;
     timestamp: number;
+    reason?: SessionEndReason; // 'session-ended' only
 }
 
 // Claude SDK message types
@@ -42,16 +174,38 @@ export interface ClaudeMessage {
         content: ContentBlock[] | string;
     };
     subtype?: string;
+    session_id?: string;
+    model?: string; // system/init
+    cwd?: string; // system/init
     name?: string;
     result?: unknown;
+    // Set on 'result' messages
+    usage?: ClaudeUsage;
+    total_cost_usd?: number;
+    num_turns?: number;
+    duration_ms?: number;
+    is_error?: boolean;
+}
+
+// Token counts in a 'result' message
+export interface ClaudeUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
 }
 
 export interface ContentBlock {
-    type: 'text' | 'tool_use' | 'tool_result';
+    type: 'text' | 'tool_use' | 'tool_result' | 'thinking' | 'image';
     text?: string;
     name?: string;
     id?: string;
     input?: unknown;
+    // tool_result blocks, sent back in 'user' messages
+    tool_use_id?: string;
+    content?: string | ContentBlock[];
+    is_error?: boolean;
+    thinking?: string;
 }
 
 // Permission modes for Claude
@@ -60,15 +214,27 @@ export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | '
 // Spawn session options
 export interface SpawnSessionOptions {
     directory: string;
-    sessionId?: string;
+    sessionId?: string; // Must not be in use, even by a stopped session (default: a random UUID)
     permissionMode?: PermissionMode;
     model?: string;
+    maxTurns?: number; // Agentic turns per message (capped by the daemon's --max-turns)
 }
 
-// Spawn session result
-export type SpawnSessionResult =
-    | { type: 'success'; sessionId: string; pid: number }
-    | { type: 'error'; errorMessage: string };
+// Resume session options
+export interface ResumeSessionOptions {
+    sessionId: string;
+}
+
+// Spawn session result (failures are RpcErrors, like every method's)
+export interface SpawnSessionResult {
+    sessionId: string;
+    pid: number;
+}
+
+// Result of methods that only report that they did it
+export interface SuccessResult {
+    success: true;
+}
 
 // Send message options
 export interface SendMessageOptions {
@@ -76,32 +242,284 @@ export interface SendMessageOptions {
     text: string;
 }
 
-// Send message result
-export interface SendMessageResult {
-    success: boolean;
-    error?: string;
+export type SendMessageResult = SuccessResult;
+
+// Interrupt session options
+export interface InterruptSessionOptions {
+    sessionId: string;
+}
+
+export type InterruptSessionResult = SuccessResult;
+
+// Configure session options: change the model or permission mode of a running session
+export interface ConfigureSessionOptions {
+    sessionId: string;
+    permissionMode?: PermissionMode;
+    model?: string;
+}
+
+export type ConfigureSessionResult = SuccessResult;
+
+// Stop session options
+export interface StopSessionOptions {
+    sessionId: string;
+}
+
+export type StopSessionResult = SuccessResult;
+
+// Ping result
+export interface PingResult {
+    pong: true;
+    timestamp: number;
 }
 
 // Get output options
 export interface GetOutputOptions {
     sessionId: string;
-    clear?: boolean;
+    sinceSeq?: number; // Return outputs with seq > sinceSeq (default 0 = everything buffered)
+}
+
+// Range of outputs that were evicted from the buffer before they could be read
+export interface OutputGap {
+    fromSeq: number;
+    toSeq: number;
 }
 
 // Get output result
 export interface GetOutputResult {
     messages: SessionOutput[];
+    latestSeq: number;
+    gap?: OutputGap;
 }
 
-// Pairing code payload
-export interface PairingPayload {
-    v: number;
+// Subscribe/unsubscribe session options
+export interface SubscribeSessionOptions {
+    sessionId: string;
+}
+
+// Subscribe session result
+export interface SubscribeSessionResult {
+    subscribed: boolean;
+}
+
+// Running totals from Claude's result messages
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    costUsd: number;
+    turns: number;
+    durationMs: number;
+    messages: number; // Result messages counted
+}
+
+// A device's usage as stored in usage.json
+export interface ClientUsage {
+    total: UsageTotals;
+    days: Record<string, UsageTotals>; // Keyed by local date, YYYY-MM-DD
+}
+
+// Get usage options
+export interface GetUsageOptions {
+    sessionId?: string;
+}
+
+// Get usage result: the session's totals and the calling device's
+export interface GetUsageResult {
+    session?: UsageTotals;
+    client: {
+        today: UsageTotals;
+        total: UsageTotals;
+    };
+    budget?: {
+        dailyUsd?: number; // Per device
+        dailyTotalUsd?: number; // All devices together
+        remainingUsd: number; // Left today for this device
+    };
+}
+
+// Line of a session's log in transcripts/<sessionId>.jsonl
+export type TranscriptLogEntry =
+    | { type: 'session'; ts: number; directory: string; permissionMode: PermissionMode; model?: string; resumed?: boolean } // Started, resumed or reconfigured
+    | { type: 'prompt'; ts: number; text: string; sender?: string } // Sender is the device name
+    | { type: 'output'; ts: number; message: ClaudeMessage }
+    | { type: 'ended'; ts: number; reason: SessionEndReason };
+
+export type TranscriptFormat = 'md' | 'json' | 'html';
+
+// Export transcript options
+export interface ExportTranscriptOptions {
+    sessionId: string;
+    format?: TranscriptFormat; // Default md
+}
+
+// Export transcript result
+export interface ExportTranscriptResult {
+    format: TranscriptFormat;
+    filename: string; // Suggested file name
+    content: string;
+}
+
+// A session's conversation, as exported (the json format is this object)
+export interface Transcript {
+    sessionId: string;
+    directory: string;
+    permissionMode: PermissionMode;
+    model?: string;
+    startedAt: number;
+    exportedAt: number;
+    usage: UsageTotals;
+    items: TranscriptItem[];
+}
+
+export type TranscriptItem =
+    | { type: 'prompt'; ts: number; text: string; sender?: string }
+    | { type: 'assistant'; ts: number; text: string }
+    | { type: 'tool'; ts: number; id: string; name: string; input: unknown; result?: { content: string; isError: boolean } }
+    | { type: 'turn'; ts: number; isError: boolean; subtype?: string; durationMs?: number; turns?: number; costUsd?: number } // End of a turn
+    | { type: 'event'; ts: number; text: string }; // Session started, resumed, reconfigured or ended
+
+// Payload of a 'session-output' event
+export interface SessionOutputEvent {
+    sessionId: string;
+    output: SessionOutput;
+}
+
+// Answer to a tool permission request
+export type PermissionDecision = 'allow-once' | 'allow-always' | 'deny';
+
+// Tool permission request from Claude, delivered as a 'permission-request' event
+export interface PermissionRequest {
+    requestId: string;
+    sessionId: string;
+    toolName: string;
+    input: unknown;
+    createdAt: number;
+}
+
+// Payload of a 'permission-resolved' event (answered, timed out or session ended)
+export interface PermissionResolvedEvent {
+    requestId: string;
+    sessionId: string;
+    decision: PermissionDecision;
+}
+
+// Answer permission options
+export interface AnswerPermissionOptions {
+    requestId: string;
+    decision: PermissionDecision;
+    message?: string; // Shown to Claude on deny
+}
+
+export type AnswerPermissionResult = SuccessResult;
+
+// Paired device, identified by its HyperDHT public key
+export interface AuthorizedClient {
+    name: string;
+    publicKey: string; // Base64
+    pairedAt: number;
+    lastSeenAt?: number;
+    revokedAt?: number;
+}
+
+// Pair options (first call from a new device)
+export interface PairOptions {
+    name: string;
+}
+
+// Pair result
+export interface PairResult {
+    name: string; // May differ from the requested name if it was taken
+    publicKey: string;
+    dataKey?: string; // Returned when pairing with an invite
+    keyId?: number; // Id of dataKey, for the bundle header
+}
+
+// Payload of a 'rekey' event: the daemon's new key, sent encrypted with the old one
+export interface RekeyEvent {
+    keyId: number;
+    dataKey: string;
+    dhtPublicKey: string;
+}
+
+// Pairing URL metadata (informational, shown by the client)
+export interface PairingMetadata {
+    host: string;
+    platform: string;
+    createdAt: number;
+    rootDirs?: string[]; // If set, sessions are restricted to these directories
+}
+
+// Pairing code payload, v1: permanent data key
+export interface PairingPayloadV1 {
+    v: 1;
     dhtPublicKey: string;
     dataKey: string;
-    metadata: {
-        host: string;
-        platform: string;
-        createdAt: number;
-        rootDir?: string; // If set, sessions are restricted to this directory
+    keyId?: number; // Omitted for the original key (id 0)
+    metadata: PairingMetadata;
+}
+
+// Pairing code payload, v2: single-device invite that is exchanged for the data key
+export interface PairingPayloadV2 {
+    v: 2;
+    dhtPublicKey: string;
+    invite: {
+        id: string;
+        secret: string; // Base64 AES-256 key protecting the pair exchange
+        expiresAt: number;
+        confirm: boolean; // Daemon operator must approve by comparing a code
     };
+    metadata: PairingMetadata;
+}
+
+export type PairingPayload = PairingPayloadV1 | PairingPayloadV2;
+
+// Invite minted by `p2p-claude pair`
+export interface Invite {
+    id: string;
+    secret: string;
+    createdAt: number;
+    expiresAt: number;
+    maxUses: number;
+    uses: number;
+    confirm: boolean;
+}
+
+// Access control role (built in, or defined in policy.json)
+export interface RoleDefinition {
+    methods: string[]; // RPC methods, or '*' for all
+    directories?: string[]; // Session directories allowed (and everything below); omitted = any
+    permissionModes?: PermissionMode[]; // Omitted = any
+    models?: string[]; // Omitted = any
+    allSessions?: boolean; // May control sessions spawned by other devices
+}
+
+// policy.json
+export interface AccessPolicyFile {
+    defaultRole?: string; // Role for devices not listed (default: viewer)
+    roles?: Record<string, RoleDefinition>; // Custom roles; override built-ins with the same name
+    clients?: Record<string, string>; // Device name or public key -> role
+}
+
+// What is recorded in the audit log
+export interface AuditRecord {
+    type: 'rpc' | 'tool-use' | 'permission';
+    client?: { name: string; publicKey: string }; // Device that made the request
+    method?: string; // rpc
+    sessionId?: string;
+    directory?: string; // Session working directory
+    outcome?: 'ok' | 'error' | 'denied'; // rpc
+    error?: string;
+    tool?: { name: string; id?: string; input?: unknown }; // tool-use, permission
+    decision?: PermissionDecision; // permission
+    details?: Record<string, unknown>; // Selected request params (never message text)
+}
+
+// Line of audit.jsonl
+export interface AuditEntry extends AuditRecord {
+    seq: number; // Starts at 1, no gaps
+    ts: number;
+    prevHash: string; // Hash of the previous entry (zeros for the first)
+    hash: string; // sha256 over prevHash and this entry without `hash`
 }